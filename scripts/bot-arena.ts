@@ -0,0 +1,36 @@
+// Arena de bots desde Node: pnpm -s arena [--matches N] [--duration ms] [--seed N] [--contestants archivo.json] [--verbose]
+// Imprime el informe JSON de BotArena por stdout (p. ej. `pnpm -s arena > informe.json`); los logs del motor van a stderr con --verbose
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { BotArena, type BotArenaOptions } from '../src/game/engine/BotArena';
+
+const { values } = parseArgs({
+    options: {
+        matches: { type: 'string' },
+        duration: { type: 'string' },
+        seed: { type: 'string' },
+        contestants: { type: 'string' },
+        verbose: { type: 'boolean', default: false }
+    }
+});
+
+const options: Partial<BotArenaOptions> = {};
+if (values.matches !== undefined) options.matches = Number(values.matches);
+if (values.duration !== undefined) options.matchDuration = Number(values.duration);
+if (values.seed !== undefined) options.seed = Number(values.seed);
+if (values.contestants !== undefined) options.contestants = JSON.parse(readFileSync(values.contestants, 'utf8'));
+
+for (const [name, value] of Object.entries({ matches: options.matches, duration: options.matchDuration, seed: options.seed })) {
+    if (value !== undefined && !Number.isFinite(value)) {
+        console.error(`❌ --${name} debe ser un número`);
+        process.exit(1);
+    }
+}
+
+// stdout queda solo para el JSON del informe
+console.log = values.verbose ? console.error : () => {};
+
+const startedAt = performance.now();
+const report = new BotArena(options).run();
+process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+console.error(`🤖 ${report.matches} partidas en ${((performance.now() - startedAt) / 1000).toFixed(1)}s`);
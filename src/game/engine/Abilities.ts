@@ -0,0 +1,213 @@
+// Catálogo de habilidades de Agario Roles
+// Cada entrada une la definición (datos) con el handler que aplica su efecto
+import type { AbilityCondition, AbilityContext, AbilityDefinition, AbilityHandler, AbilitySystem } from './AbilitySystem';
+import type { Entity } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { StatusEffectType } from './StatusEffectSystem';
+import { TeamSystem } from './TeamSystem';
+
+interface AbilityEntry {
+    definition: AbilityDefinition;
+    handler: AbilityHandler;
+    canActivate?: AbilityCondition;
+}
+
+// Entidades dentro del alcance de alguna célula del jugador (cada una una sola vez, con la célula más cercana)
+function forEachInRange(
+    context: AbilityContext,
+    filter: (entity: Entity) => boolean,
+    callback: (target: Entity, source: Entity, distance: number, reach: number) => void
+): void {
+    const { ability, cells, physicsEngine } = context;
+    const visited = new Set<string>();
+
+    for (const cell of cells) {
+        const reach = cell.radius + ability.range;
+        const nearby = physicsEngine.getSpatialGrid().queryArea(
+            cell.position.x - reach, cell.position.y - reach,
+            cell.position.x + reach, cell.position.y + reach
+        );
+
+        for (const id of nearby) {
+            if (visited.has(id)) continue;
+            const target = physicsEngine.getEntity(id);
+            if (!target || !filter(target)) continue;
+
+            const distance = physicsEngine.getDistance(cell.position, target.position);
+            if (distance === 0 || distance > reach) continue;
+
+            visited.add(id);
+            callback(target, cell, distance, reach);
+        }
+    }
+}
+
+// Células de otros jugadores que no son compañeros de equipo
+const isEnemyCell = ({ playerId, cells }: AbilityContext) => (entity: Entity) =>
+    PhysicsEngine.isCell(entity) && entity.ownerId !== playerId &&
+    (cells.length === 0 || !TeamSystem.areTeammates(cells[0], entity));
+
+const isFood = (entity: Entity) => entity.type === 'pellet' || entity.type === 'ejected';
+
+// Desplazar todas las células ability.range px en la dirección de apuntado
+function displaceCells({ ability, cells, direction, physicsEngine }: AbilityContext): void {
+    for (const cell of cells) {
+        physicsEngine.translateEntity(cell.id, {
+            x: direction.x * ability.range,
+            y: direction.y * ability.range
+        });
+    }
+}
+
+// Empujar (fuerza > 0) o atraer (fuerza < 0) células enemigas, más fuerte cuanto más cerca
+function displaceEnemies(force: number): AbilityHandler {
+    return (context) => {
+        forEachInRange(context, isEnemyCell(context), (target, source, distance, reach) => {
+            // Al atraer, no acercar más allá del borde de la célula que atrae
+            const maxPull = Math.max(0, distance - source.radius);
+            const amount = force > 0
+                ? force * (1 - distance / reach)
+                : -Math.min(maxPull, -force * (1 - distance / reach));
+            const away = context.physicsEngine.getDelta(source.position, target.position);
+
+            context.physicsEngine.translateEntity(target.id, {
+                x: (away.x / distance) * amount,
+                y: (away.y / distance) * amount
+            });
+        });
+    };
+}
+
+// Lanzar la comida cercana hacia las células del jugador
+function pullFood(speed: number): AbilityHandler {
+    return (context) => {
+        forEachInRange(context, isFood, (food, source, distance) => {
+            const toSource = context.physicsEngine.getDelta(food.position, source.position);
+            food.velocity.x = (toSource.x / distance) * speed;
+            food.velocity.y = (toSource.y / distance) * speed;
+        });
+    };
+}
+
+// Aplicar un efecto de estado a todas las células del jugador
+function applySelfEffect(type: StatusEffectType, duration?: number): AbilityHandler {
+    return ({ playerId, statusEffectSystem }) => {
+        statusEffectSystem.applyToOwner(playerId, type, { duration, sourceId: playerId });
+    };
+}
+
+// Aplicar un efecto de estado a las células enemigas en rango
+function applyEnemyEffect(type: StatusEffectType, duration?: number): AbilityHandler {
+    return (context) => {
+        forEachInRange(context, isEnemyCell(context), (target) => {
+            context.statusEffectSystem.apply(target.id, type, { duration, sourceId: context.playerId });
+        });
+    };
+}
+
+function combineHandlers(...handlers: AbilityHandler[]): AbilityHandler {
+    return (context) => {
+        for (const handler of handlers) {
+            handler(context);
+        }
+    };
+}
+
+const entries: AbilityEntry[] = [
+    // --- Básico ---
+    {
+        definition: { id: 'dash', name: 'Dash', cooldown: 5000, massCost: 10, castTime: 0, targeting: 'direction', range: 120 },
+        handler: displaceCells
+    },
+    {
+        definition: { id: 'magnet', name: 'Imán', cooldown: 8000, massCost: 0, castTime: 0, targeting: 'area', range: 250 },
+        handler: pullFood(400)
+    },
+    {
+        definition: { id: 'nova', name: 'Nova', cooldown: 30000, massCost: 25, castTime: 500, targeting: 'area', range: 300 },
+        handler: displaceEnemies(150)
+    },
+
+    // --- Tanque: aguanta y desplaza ---
+    {
+        definition: { id: 'charge', name: 'Embestida', cooldown: 6000, massCost: 20, castTime: 0, targeting: 'direction', range: 160 },
+        handler: displaceCells
+    },
+    {
+        definition: { id: 'bulwark', name: 'Baluarte', cooldown: 15000, massCost: 15, castTime: 0, targeting: 'self', range: 0 },
+        handler: applySelfEffect('shield', 3000)
+    },
+    {
+        definition: { id: 'quake', name: 'Terremoto', cooldown: 35000, massCost: 40, castTime: 800, targeting: 'area', range: 400 },
+        handler: combineHandlers(displaceEnemies(220), applyEnemyEffect('slow', 2500))
+    },
+
+    // --- Asesino: movilidad y remate ---
+    {
+        definition: { id: 'blink', name: 'Parpadeo', cooldown: 4000, massCost: 5, castTime: 0, targeting: 'direction', range: 220 },
+        handler: displaceCells
+    },
+    {
+        definition: { id: 'lunge', name: 'Estocada', cooldown: 7000, massCost: 0, castTime: 0, targeting: 'direction', range: 0 },
+        handler: ({ cells, direction, splitMergeSystem }) => {
+            for (const cell of cells) {
+                splitMergeSystem.performSplit(cell.id, { ...direction });
+            }
+        },
+        // Sin ninguna célula que pueda hacer split (cooldown, masa o maxSplitParts) no se gasta
+        canActivate: ({ cells, splitMergeSystem }) => cells.some(cell => splitMergeSystem.canPlayerSplit(cell.id))
+    },
+    {
+        definition: { id: 'shadow', name: 'Sombra', cooldown: 30000, massCost: 20, castTime: 300, targeting: 'self', range: 0 },
+        handler: combineHandlers(applySelfEffect('stealth', 4000), applySelfEffect('haste', 2000))
+    },
+
+    // --- Soporte: recursos y reagrupación ---
+    {
+        definition: { id: 'feast', name: 'Festín', cooldown: 6000, massCost: 0, castTime: 0, targeting: 'area', range: 300 },
+        handler: pullFood(450)
+    },
+    {
+        definition: { id: 'regroup', name: 'Reagrupar', cooldown: 12000, massCost: 5, castTime: 0, targeting: 'self', range: 200 },
+        handler: combineHandlers(({ ability, cells, physicsEngine }) => {
+            if (cells.length < 2) return;
+            const center = physicsEngine.getCenterOfMass(cells);
+
+            // Acercar cada célula al centro de masa, como mucho ability.range px
+            for (const cell of cells) {
+                const { x: dx, y: dy } = physicsEngine.getDelta(cell.position, center);
+                const distance = Math.sqrt(dx * dx + dy * dy);
+                if (distance === 0) continue;
+
+                const step = Math.min(distance, ability.range);
+                physicsEngine.translateEntity(cell.id, { x: (dx / distance) * step, y: (dy / distance) * step });
+            }
+        }, applySelfEffect('haste', 2000))
+    },
+    {
+        definition: { id: 'harvest', name: 'Cosecha', cooldown: 25000, massCost: 0, castTime: 400, targeting: 'area', range: 600 },
+        handler: pullFood(650)
+    },
+
+    // --- Controlador: manipula la posición de los demás ---
+    {
+        definition: { id: 'snare', name: 'Trampa', cooldown: 9000, massCost: 10, castTime: 0, targeting: 'area', range: 200 },
+        handler: applyEnemyEffect('root', 1500)
+    },
+    {
+        definition: { id: 'repel', name: 'Repulsión', cooldown: 7000, massCost: 10, castTime: 0, targeting: 'area', range: 250 },
+        handler: displaceEnemies(140)
+    },
+    {
+        definition: { id: 'vortex', name: 'Vórtice', cooldown: 30000, massCost: 30, castTime: 600, targeting: 'area', range: 450 },
+        handler: combineHandlers(displaceEnemies(-180), applyEnemyEffect('slow', 2000), pullFood(500))
+    }
+];
+
+export const ABILITY_CATALOG: readonly AbilityEntry[] = entries;
+
+export function registerAbilities(abilitySystem: AbilitySystem): void {
+    for (const { definition, handler, canActivate } of ABILITY_CATALOG) {
+        abilitySystem.registerAbility(definition, handler, canActivate);
+    }
+}
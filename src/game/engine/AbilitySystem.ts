@@ -0,0 +1,280 @@
+// Sistema de habilidades Q/E/R para Agario Roles
+// Las habilidades son datos (cooldown, coste en masa, tiempo de casteo, targeting)
+// y su efecto lo resuelve un handler registrado por id. Los cooldowns viven en la simulación, no en la UI
+import type { Entity, Vector2D } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { SplitMergeSystem } from './SplitMergeSystem';
+import type { StatusEffectSystem } from './StatusEffectSystem';
+import type { Clock } from './Clock';
+
+export type AbilitySlot = 'Q' | 'E' | 'R';
+
+export const ABILITY_SLOTS: readonly AbilitySlot[] = ['Q', 'E', 'R'];
+
+// Cómo elige objetivo una habilidad
+// - self: afecta solo a las células del jugador
+// - direction: usa la dirección de apuntado
+// - area: afecta a lo que haya en un radio alrededor de las células del jugador
+export type AbilityTargeting = 'self' | 'direction' | 'area';
+
+export interface AbilityDefinition {
+    id: string;
+    name: string;
+    cooldown: number; // ms
+    massCost: number; // Masa total que consume (repartida entre las células por masa)
+    castTime: number; // ms entre la activación y el efecto (0: instantánea)
+    targeting: AbilityTargeting;
+    range: number; // Radio para targeting 'area' o alcance para 'direction' (px)
+}
+
+export interface AbilityContext {
+    playerId: string;
+    ability: AbilityDefinition;
+    cells: Entity[]; // Células vivas del jugador al ejecutar el efecto
+    direction: Vector2D; // Dirección de apuntado normalizada
+    physicsEngine: PhysicsEngine;
+    splitMergeSystem: SplitMergeSystem;
+    statusEffectSystem: StatusEffectSystem;
+}
+
+export type AbilityHandler = (context: AbilityContext) => void;
+
+// Precondición de activación: si devuelve false la habilidad no se usa (ni cooldown ni coste)
+export type AbilityCondition = (context: AbilityContext) => boolean;
+
+export type AbilityLoadout = Record<AbilitySlot, string>; // Slot -> id de habilidad
+
+// Estado de un slot para la UI (anillos de cooldown, habilidad en casteo)
+export interface AbilitySlotState {
+    abilityId: string;
+    name: string;
+    cooldownRemaining: number; // ms
+    cooldownTotal: number; // ms
+    casting: boolean;
+}
+
+// Habilidad en casteo, para dibujar su aviso (zona, dirección o aura según el targeting)
+export interface AbilityCastState {
+    playerId: string;
+    abilityId: string;
+    targeting: AbilityTargeting;
+    range: number;
+    direction: Vector2D;
+    progress: number; // 0-1 del tiempo de casteo
+}
+
+export interface AbilityConfig {
+    minMassAfterCost: number; // Masa mínima que debe quedar en total tras pagar el coste
+}
+
+interface PendingCast {
+    playerId: string;
+    slot: AbilitySlot;
+    direction: Vector2D;
+    startedAt: number;
+    executeAt: number;
+}
+
+export class AbilitySystem {
+    private physicsEngine: PhysicsEngine;
+    private splitMergeSystem: SplitMergeSystem;
+    private statusEffectSystem: StatusEffectSystem;
+    private clock: Clock;
+    private config: AbilityConfig;
+    private definitions: Map<string, AbilityDefinition> = new Map();
+    private handlers: Map<string, AbilityHandler> = new Map();
+    private conditions: Map<string, AbilityCondition> = new Map();
+    private loadouts: Map<string, AbilityLoadout> = new Map();
+    private cooldownEnds: Map<string, Partial<Record<AbilitySlot, number>>> = new Map(); // jugador -> slot -> instante
+    private pendingCasts: PendingCast[] = [];
+
+    constructor(
+        physicsEngine: PhysicsEngine,
+        splitMergeSystem: SplitMergeSystem,
+        statusEffectSystem: StatusEffectSystem,
+        clock: Clock,
+        config: Partial<AbilityConfig> = {}
+    ) {
+        this.physicsEngine = physicsEngine;
+        this.splitMergeSystem = splitMergeSystem;
+        this.statusEffectSystem = statusEffectSystem;
+        this.clock = clock;
+        this.config = {
+            minMassAfterCost: 20,
+            ...config
+        };
+    }
+
+    // Registrar una habilidad, el handler que resuelve su efecto y, opcionalmente, su precondición
+    registerAbility(definition: AbilityDefinition, handler: AbilityHandler, canActivate?: AbilityCondition): void {
+        this.definitions.set(definition.id, { ...definition });
+        this.handlers.set(definition.id, handler);
+        if (canActivate) {
+            this.conditions.set(definition.id, canActivate);
+        } else {
+            this.conditions.delete(definition.id);
+        }
+    }
+
+    setLoadout(playerId: string, loadout: AbilityLoadout): void {
+        this.loadouts.set(playerId, { ...loadout });
+    }
+
+    getLoadout(playerId: string): AbilityLoadout | undefined {
+        const loadout = this.loadouts.get(playerId);
+        return loadout ? { ...loadout } : undefined;
+    }
+
+    getAbility(abilityId: string): AbilityDefinition | undefined {
+        const definition = this.definitions.get(abilityId);
+        return definition ? { ...definition } : undefined;
+    }
+
+    // Intentar activar la habilidad de un slot: valida cooldown, casteo en curso, coste y precondición
+    tryActivate(playerId: string, slot: AbilitySlot, direction: Vector2D): boolean {
+        const ability = this.getSlotAbility(playerId, slot);
+        if (!ability) return false;
+
+        if (this.getCooldownRemaining(playerId, slot) > 0) return false;
+        if (this.pendingCasts.some(cast => cast.playerId === playerId)) return false;
+
+        const cells = this.getCells(playerId);
+        const totalMass = cells.reduce((total, cell) => total + cell.mass, 0);
+        if (cells.length === 0 || totalMass - ability.massCost < this.config.minMassAfterCost) return false;
+
+        const aim = this.normalize(direction);
+        const condition = this.conditions.get(ability.id);
+        if (condition && !condition(this.createContext(playerId, ability, cells, aim))) return false;
+
+        // Pagar el coste repartido por masa para no vaciar las células pequeñas
+        if (ability.massCost > 0) {
+            for (const cell of cells) {
+                const share = ability.massCost * (cell.mass / totalMass);
+                this.physicsEngine.updateEntityMass(cell.id, cell.mass - share);
+            }
+        }
+
+        const now = this.clock.now();
+        const cooldowns = this.cooldownEnds.get(playerId) || {};
+        cooldowns[slot] = now + ability.cooldown;
+        this.cooldownEnds.set(playerId, cooldowns);
+
+        const cast: PendingCast = { playerId, slot, direction: aim, startedAt: now, executeAt: now + ability.castTime };
+        if (ability.castTime <= 0) {
+            this.execute(cast);
+        } else {
+            this.pendingCasts.push(cast);
+        }
+
+        console.log(`✨ ${playerId} usó ${ability.name} (${slot})`);
+        return true;
+    }
+
+    // Resolver los casteos que terminan en este tick (llamar en game loop)
+    update(): void {
+        const now = this.clock.now();
+        const ready = this.pendingCasts.filter(cast => cast.executeAt <= now);
+        if (ready.length === 0) return;
+
+        this.pendingCasts = this.pendingCasts.filter(cast => cast.executeAt > now);
+        for (const cast of ready) {
+            this.execute(cast);
+        }
+    }
+
+    private execute(cast: PendingCast): void {
+        const ability = this.getSlotAbility(cast.playerId, cast.slot);
+        const handler = ability && this.handlers.get(ability.id);
+        const cells = this.getCells(cast.playerId);
+
+        // El jugador pudo morir durante el casteo
+        if (!ability || !handler || cells.length === 0) return;
+
+        handler(this.createContext(cast.playerId, ability, cells, cast.direction));
+    }
+
+    private createContext(playerId: string, ability: AbilityDefinition, cells: Entity[], direction: Vector2D): AbilityContext {
+        return {
+            playerId,
+            ability,
+            cells,
+            direction,
+            physicsEngine: this.physicsEngine,
+            splitMergeSystem: this.splitMergeSystem,
+            statusEffectSystem: this.statusEffectSystem
+        };
+    }
+
+    // Casteos en curso de todos los jugadores (avisos en pantalla)
+    getActiveCasts(): AbilityCastState[] {
+        const now = this.clock.now();
+        const casts: AbilityCastState[] = [];
+
+        for (const cast of this.pendingCasts) {
+            const ability = this.getSlotAbility(cast.playerId, cast.slot);
+            if (!ability) continue;
+
+            casts.push({
+                playerId: cast.playerId,
+                abilityId: ability.id,
+                targeting: ability.targeting,
+                range: ability.range,
+                direction: { ...cast.direction },
+                progress: Math.min(1, (now - cast.startedAt) / Math.max(1, cast.executeAt - cast.startedAt))
+            });
+        }
+        return casts;
+    }
+
+    getCooldownRemaining(playerId: string, slot: AbilitySlot): number {
+        const end = this.cooldownEnds.get(playerId)?.[slot];
+        if (end === undefined) return 0;
+        return Math.max(0, end - this.clock.now());
+    }
+
+    // Estado de los tres slots para la UI
+    getSlotStates(playerId: string): Partial<Record<AbilitySlot, AbilitySlotState>> {
+        const states: Partial<Record<AbilitySlot, AbilitySlotState>> = {};
+
+        for (const slot of ABILITY_SLOTS) {
+            const ability = this.getSlotAbility(playerId, slot);
+            if (!ability) continue;
+
+            states[slot] = {
+                abilityId: ability.id,
+                name: ability.name,
+                cooldownRemaining: this.getCooldownRemaining(playerId, slot),
+                cooldownTotal: ability.cooldown,
+                casting: this.pendingCasts.some(cast => cast.playerId === playerId && cast.slot === slot)
+            };
+        }
+
+        return states;
+    }
+
+    // Olvidar el estado de un jugador (al salir o reaparecer)
+    removePlayer(playerId: string): void {
+        this.loadouts.delete(playerId);
+        this.cooldownEnds.delete(playerId);
+        this.pendingCasts = this.pendingCasts.filter(cast => cast.playerId !== playerId);
+    }
+
+    private getSlotAbility(playerId: string, slot: AbilitySlot): AbilityDefinition | undefined {
+        const abilityId = this.loadouts.get(playerId)?.[slot];
+        return abilityId !== undefined ? this.definitions.get(abilityId) : undefined;
+    }
+
+    private getCells(playerId: string): Entity[] {
+        return this.physicsEngine.getEntitiesByOwner(playerId).filter(entity => PhysicsEngine.isCell(entity));
+    }
+
+    private normalize(direction: Vector2D): Vector2D {
+        const magnitude = Math.sqrt(direction.x ** 2 + direction.y ** 2);
+        if (magnitude === 0) return { x: 0, y: -1 };
+        return { x: direction.x / magnitude, y: direction.y / magnitude };
+    }
+
+    getConfig(): AbilityConfig {
+        return { ...this.config };
+    }
+}
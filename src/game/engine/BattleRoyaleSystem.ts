@@ -0,0 +1,266 @@
+// Sistema de battle royale para Agario Roles
+// La zona segura se cierra por fases programadas; fuera de ella las células pierden masa cada segundo
+// hasta morir. La comida solo aparece dentro de la zona y la partida acaba cuando queda un jugador (o equipo)
+import type { Entity, Vector2D } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { GameSimulation } from './GameSimulation';
+import type { TeamId } from './TeamSystem';
+
+// Una fase: espera delay ms con la zona quieta y luego encoge durante shrinkDuration ms
+export interface SafeZonePhase {
+    delay: number; // ms
+    shrinkDuration: number; // ms
+    radius: number; // Radio al terminar la fase, como fracción del radio inicial
+}
+
+export interface BattleRoyaleConfig {
+    phases: SafeZonePhase[];
+    damageRate: number; // Fracción de la masa que pierde por segundo una célula fuera de la zona
+    minDamage: number; // Pérdida mínima por segundo fuera de la zona
+    eliminationMass: number; // Por debajo de esta masa la célula muere
+}
+
+export interface SafeZoneState {
+    center: Vector2D;
+    radius: number;
+    targetRadius: number; // Radio al terminar la fase actual
+    phase: number; // Índice de la fase actual (phases.length: zona final)
+    shrinking: boolean;
+    nextChangeIn: number; // ms hasta que empiece o termine de encoger (0 en la zona final)
+}
+
+export interface BattleRoyaleStanding {
+    playerId: string;
+    teamId?: TeamId;
+    placement: number; // 1: ganador
+    eliminatedAt?: number; // ms simulados
+    eliminatedBy?: string;
+    kills: number;
+}
+
+export interface BattleRoyaleResult {
+    winnerIds: string[]; // Supervivientes (uno en FFA, los vivos del equipo ganador en equipos)
+    winnerTeamId?: TeamId;
+    duration: number; // ms
+    standings: BattleRoyaleStanding[];
+}
+
+// killerId de las muertes por la zona
+export const SAFE_ZONE_KILLER_ID = 'zone';
+
+export class BattleRoyaleSystem {
+    private simulation: GameSimulation;
+    private config: BattleRoyaleConfig;
+    private center: Vector2D;
+    private initialRadius: number;
+    private startTime: number | null = null; // Primer tick de partida (la zona no corre durante la cuenta atrás)
+    private eliminations: Map<string, { time: number; killerId: string }> = new Map();
+    private kills: Map<string, number> = new Map();
+    private result: BattleRoyaleResult | null = null;
+    private matchEndListeners: Array<(result: BattleRoyaleResult) => void> = [];
+
+    constructor(simulation: GameSimulation, config: Partial<BattleRoyaleConfig> = {}) {
+        this.simulation = simulation;
+        this.config = {
+            phases: [
+                { delay: 30000, shrinkDuration: 20000, radius: 0.65 },
+                { delay: 20000, shrinkDuration: 15000, radius: 0.4 },
+                { delay: 15000, shrinkDuration: 15000, radius: 0.2 },
+                { delay: 10000, shrinkDuration: 10000, radius: 0.05 },
+                // Cierre total: siempre acaba quedando uno
+                { delay: 10000, shrinkDuration: 20000, radius: 0 }
+            ],
+            damageRate: 0.05,
+            minDamage: 4,
+            eliminationMass: 10,
+            ...config
+        };
+
+        // La zona inicial cubre todo el mundo
+        const { worldWidth, worldHeight } = simulation.getConfig();
+        this.center = { x: worldWidth / 2, y: worldHeight / 2 };
+        this.initialRadius = Math.sqrt(worldWidth * worldWidth + worldHeight * worldHeight) / 2;
+
+        simulation.onPlayerDeath(({ playerId, killerId, time }) => {
+            this.eliminations.set(playerId, { time, killerId });
+            if (killerId !== playerId && killerId !== SAFE_ZONE_KILLER_ID) {
+                this.kills.set(killerId, (this.kills.get(killerId) ?? 0) + 1);
+            }
+        });
+    }
+
+    // Dañar a las células fuera de la zona, retirar la comida de fuera y comprobar ganador (llamar en game loop)
+    update(deltaTime: number): void {
+        if (this.result) return;
+        if (this.startTime === null) {
+            this.startTime = this.simulation.getTime();
+        }
+
+        const zone = this.getZone();
+        const physicsEngine = this.simulation.getPhysicsEngine();
+
+        for (const entity of physicsEngine.getAllEntities()) {
+            if (this.isInsideZone(entity.position, zone)) continue;
+
+            if (entity.type === 'pellet') {
+                // Así los pellets que se regeneran se concentran dentro de la zona
+                physicsEngine.removeEntity(entity.id);
+            } else if (PhysicsEngine.isCell(entity)) {
+                this.damageCell(entity, deltaTime);
+            }
+        }
+
+        this.checkForWinner();
+    }
+
+    private damageCell(cell: Entity, deltaTime: number): void {
+        const loss = (this.config.minDamage + cell.mass * this.config.damageRate) * (deltaTime / 1000);
+        const mass = cell.mass - loss;
+
+        if (mass < this.config.eliminationMass) {
+            this.simulation.eliminateCell(cell.id, SAFE_ZONE_KILLER_ID);
+        } else {
+            this.simulation.getPhysicsEngine().updateEntityMass(cell.id, mass);
+        }
+    }
+
+    // Terminar cuando solo quede un jugador (o equipo) con células
+    private checkForWinner(): void {
+        const playerIds = this.simulation.getPlayerIds();
+        if (playerIds.length < 2) return;
+
+        const alive = playerIds.filter(playerId => this.simulation.isPlayerAlive(playerId));
+        const aliveGroups = new Set(alive.map(playerId => this.getGroup(playerId)));
+        if (aliveGroups.size > 1) return;
+
+        this.result = {
+            winnerIds: alive,
+            winnerTeamId: alive.length > 0 ? this.simulation.getPlayerTeam(alive[0]) : undefined,
+            duration: this.simulation.getTime() - (this.startTime ?? 0),
+            standings: this.buildStandings(playerIds)
+        };
+
+        const winner = this.result.winnerTeamId ?? this.result.winnerIds.join(', ');
+        console.log(`🏆 Fin de la partida: gana ${winner || 'nadie'}`);
+
+        for (const listener of this.matchEndListeners) {
+            listener(this.result);
+        }
+    }
+
+    // Equipo del jugador, o el propio jugador fuera del modo equipos
+    private getGroup(playerId: string): string {
+        return this.simulation.getPlayerTeam(playerId) ?? playerId;
+    }
+
+    // Puesto de cada grupo: vivos primero y después por orden inverso de eliminación
+    private buildStandings(playerIds: string[]): BattleRoyaleStanding[] {
+        const groupEliminatedAt = new Map<string, number>();
+        for (const playerId of playerIds) {
+            const group = this.getGroup(playerId);
+            const time = this.simulation.isPlayerAlive(playerId)
+                ? Infinity
+                : this.eliminations.get(playerId)?.time ?? 0;
+            groupEliminatedAt.set(group, Math.max(groupEliminatedAt.get(group) ?? -Infinity, time));
+        }
+
+        const groupOrder = [...groupEliminatedAt.entries()].sort((a, b) => b[1] - a[1]).map(([group]) => group);
+
+        return playerIds
+            .map(playerId => {
+                const elimination = this.eliminations.get(playerId);
+                const alive = this.simulation.isPlayerAlive(playerId);
+                return {
+                    playerId,
+                    teamId: this.simulation.getPlayerTeam(playerId),
+                    placement: groupOrder.indexOf(this.getGroup(playerId)) + 1,
+                    eliminatedAt: alive ? undefined : elimination?.time,
+                    eliminatedBy: alive ? undefined : elimination?.killerId,
+                    kills: this.kills.get(playerId) ?? 0
+                };
+            })
+            .sort((a, b) => a.placement - b.placement || b.kills - a.kills);
+    }
+
+    // Estado de la zona en el instante actual según las fases programadas
+    getZone(): SafeZoneState {
+        const elapsed = this.startTime === null ? 0 : this.simulation.getTime() - this.startTime;
+        let radius = this.initialRadius;
+        let phaseStart = 0;
+
+        for (let i = 0; i < this.config.phases.length; i++) {
+            const phase = this.config.phases[i];
+            const targetRadius = phase.radius * this.initialRadius;
+            const shrinkStart = phaseStart + phase.delay;
+            const shrinkEnd = shrinkStart + phase.shrinkDuration;
+
+            if (elapsed < shrinkStart) {
+                return { center: { ...this.center }, radius, targetRadius, phase: i, shrinking: false, nextChangeIn: shrinkStart - elapsed };
+            }
+            if (elapsed < shrinkEnd) {
+                const progress = (elapsed - shrinkStart) / phase.shrinkDuration;
+                return {
+                    center: { ...this.center },
+                    radius: radius + (targetRadius - radius) * progress,
+                    targetRadius,
+                    phase: i,
+                    shrinking: true,
+                    nextChangeIn: shrinkEnd - elapsed
+                };
+            }
+
+            radius = targetRadius;
+            phaseStart = shrinkEnd;
+        }
+
+        return {
+            center: { ...this.center },
+            radius,
+            targetRadius: radius,
+            phase: this.config.phases.length,
+            shrinking: false,
+            nextChangeIn: 0
+        };
+    }
+
+    isInsideZone(position: Vector2D, zone: SafeZoneState = this.getZone()): boolean {
+        const dx = position.x - zone.center.x;
+        const dy = position.y - zone.center.y;
+        return dx * dx + dy * dy <= zone.radius * zone.radius;
+    }
+
+    // Punto aleatorio uniforme dentro de la zona actual (para generar comida)
+    randomPointInZone(): Vector2D {
+        const zone = this.getZone();
+        const random = this.simulation.getRandom();
+        const distance = zone.radius * Math.sqrt(random.next());
+        const angle = random.range(0, Math.PI * 2);
+        return {
+            x: zone.center.x + Math.cos(angle) * distance,
+            y: zone.center.y + Math.sin(angle) * distance
+        };
+    }
+
+    getAliveCount(): number {
+        return this.simulation.getPlayerIds().filter(playerId => this.simulation.isPlayerAlive(playerId)).length;
+    }
+
+    getResult(): BattleRoyaleResult | null {
+        return this.result;
+    }
+
+    isMatchOver(): boolean {
+        return this.result !== null;
+    }
+
+    onMatchEnd(listener: (result: BattleRoyaleResult) => void): () => void {
+        this.matchEndListeners.push(listener);
+        return () => {
+            this.matchEndListeners = this.matchEndListeners.filter(l => l !== listener);
+        };
+    }
+
+    getConfig(): BattleRoyaleConfig {
+        return { ...this.config, phases: this.config.phases.map(phase => ({ ...phase })) };
+    }
+}
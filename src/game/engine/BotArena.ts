@@ -0,0 +1,158 @@
+// Arena headless para comparar configuraciones de bots
+// Enfrenta perfiles de bots en N partidas con semilla y devuelve estadísticas serializables a JSON
+import { GameSimulation, type GameConfig } from './GameSimulation';
+import type { BotDifficulty, BotProfile } from './BotSystem';
+
+export interface BotArenaContestant {
+    name: string;
+    profile: BotDifficulty | Partial<BotProfile>;
+    count: number; // Bots de este perfil en cada partida
+}
+
+export interface BotArenaOptions {
+    contestants: BotArenaContestant[];
+    matches: number;
+    matchDuration: number; // ms simulados por partida
+    seed: number; // La partida i usa seed + i
+    gameConfig: Partial<GameConfig>; // Ajustes extra del mundo (tamaño, pellets, virus...)
+}
+
+export interface BotArenaContestantStats {
+    name: string;
+    bots: number; // Bots jugados en total (todas las partidas)
+    deaths: number;
+    kills: number; // Jugadores eliminados por bots de este perfil
+    killsPerBot: number;
+    survivalRate: number; // Fracción de bots vivos al final de su partida
+    avgSurvivalTime: number; // ms
+    avgPeakMass: number;
+    maxPeakMass: number;
+}
+
+export interface BotArenaReport {
+    seed: number;
+    matches: number;
+    matchDuration: number;
+    contestants: BotArenaContestantStats[];
+}
+
+// Resultado de un bot en una partida
+interface BotMatchResult {
+    contestant: number;
+    survivalTime: number;
+    alive: boolean;
+    peakMass: number;
+    kills: number;
+}
+
+export class BotArena {
+    private options: BotArenaOptions;
+
+    constructor(options: Partial<BotArenaOptions> = {}) {
+        this.options = {
+            contestants: [
+                { name: 'easy', profile: 'easy', count: 3 },
+                { name: 'normal', profile: 'normal', count: 3 },
+                { name: 'hard', profile: 'hard', count: 3 }
+            ],
+            matches: 10,
+            matchDuration: 120000, // 2 minutos
+            seed: 1,
+            gameConfig: {},
+            ...options
+        };
+    }
+
+    // Jugar todas las partidas y agregar los resultados por perfil
+    run(): BotArenaReport {
+        const results: BotMatchResult[] = [];
+        for (let i = 0; i < this.options.matches; i++) {
+            results.push(...this.runMatch(this.options.seed + i));
+        }
+
+        const contestants = this.options.contestants.map((contestant, index) => {
+            const bots = results.filter(r => r.contestant === index);
+            const count = bots.length;
+            const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+            const kills = sum(bots.map(b => b.kills));
+
+            return {
+                name: contestant.name,
+                bots: count,
+                deaths: bots.filter(b => !b.alive).length,
+                kills,
+                killsPerBot: count > 0 ? kills / count : 0,
+                survivalRate: count > 0 ? bots.filter(b => b.alive).length / count : 0,
+                avgSurvivalTime: count > 0 ? sum(bots.map(b => b.survivalTime)) / count : 0,
+                avgPeakMass: count > 0 ? sum(bots.map(b => b.peakMass)) / count : 0,
+                maxPeakMass: Math.max(0, ...bots.map(b => b.peakMass))
+            };
+        });
+
+        return {
+            seed: this.options.seed,
+            matches: this.options.matches,
+            matchDuration: this.options.matchDuration,
+            contestants
+        };
+    }
+
+    private runMatch(seed: number): BotMatchResult[] {
+        // Sin bots automáticos ni reapariciones: cada bot tiene una sola vida
+        const simulation = new GameSimulation({
+            ...this.options.gameConfig,
+            seed,
+            botCount: 0,
+            botRespawnDelay: Infinity,
+            matchDuration: this.options.matchDuration,
+            matchCountdown: 0
+        });
+        const deltaTime = 1000 / simulation.getConfig().targetFPS;
+        const botSystem = simulation.getBotSystem();
+
+        const results = new Map<string, BotMatchResult>();
+        this.options.contestants.forEach((contestant, index) => {
+            for (let i = 0; i < contestant.count; i++) {
+                const botId = botSystem.addBot(contestant.profile);
+                results.set(botId, { contestant: index, survivalTime: 0, alive: true, peakMass: 0, kills: 0 });
+            }
+        });
+
+        const unsubscribe = simulation.onPlayerDeath(({ playerId, killerId, time }) => {
+            const victim = results.get(playerId);
+            if (victim) {
+                victim.alive = false;
+                victim.survivalTime = time;
+            }
+            const killer = results.get(killerId);
+            if (killer && killerId !== playerId) {
+                killer.kills++;
+            }
+        });
+
+        // Terminar antes si solo queda un bot en pie
+        while (simulation.getTime() < this.options.matchDuration) {
+            simulation.step(deltaTime);
+
+            let aliveCount = 0;
+            for (const [botId, result] of results) {
+                if (!result.alive) continue;
+                aliveCount++;
+
+                const mass = simulation.getPlayerCells(botId).reduce((total, cell) => total + cell.mass, 0);
+                result.peakMass = Math.max(result.peakMass, mass);
+            }
+            if (aliveCount <= 1) break;
+        }
+
+        // Los supervivientes cuentan el tiempo jugado hasta el final de la partida
+        for (const result of results.values()) {
+            if (result.alive) {
+                result.survivalTime = simulation.getTime();
+            }
+        }
+
+        unsubscribe();
+        return [...results.values()];
+    }
+}
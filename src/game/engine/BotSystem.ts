@@ -0,0 +1,386 @@
+// Sistema de bots para Agario Roles
+// Cada bot es una máquina de estados (wander, forage, flee, chase, split-attack)
+// que percibe su entorno con el spatial grid y juega con los mismos comandos que un humano
+import type { Entity, Vector2D } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { GameSimulation } from './GameSimulation';
+import { seek, flee, arrive, combine } from './Steering';
+import { ROLE_IDS, type RoleId } from './Roles';
+import { TeamSystem } from './TeamSystem';
+
+export type BotState = 'wander' | 'forage' | 'flee' | 'chase' | 'split-attack';
+
+// Parámetros de comportamiento de un bot (cada bot puede tener los suyos)
+export interface BotProfile {
+    reactionDelay: number; // ms de simulación entre decisiones
+    perceptionRadius: number; // Radio de percepción base (px)
+    perceptionPerRadius: number; // Radio de percepción extra por cada px de radio del bot
+    fleeMargin: number; // Distancia entre bordes a la que un bot huye de una amenaza
+    splitAttackRange: number; // Distancia entre bordes a la que un bot intenta un split-attack
+    splitAttackChance: number; // Probabilidad de intentar el split-attack cuando es posible (0-1)
+    decisionNoise: number; // Error máximo de la dirección elegida (radianes)
+}
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+export const BOT_DIFFICULTY_PRESETS: Record<BotDifficulty, BotProfile> = {
+    easy: {
+        reactionDelay: 300,
+        perceptionRadius: 200,
+        perceptionPerRadius: 2,
+        fleeMargin: 60,
+        splitAttackRange: 80,
+        splitAttackChance: 0.1,
+        decisionNoise: 0.6
+    },
+    normal: {
+        reactionDelay: 100,
+        perceptionRadius: 300,
+        perceptionPerRadius: 4,
+        fleeMargin: 120,
+        splitAttackRange: 150,
+        splitAttackChance: 0.5,
+        decisionNoise: 0.15
+    },
+    hard: {
+        reactionDelay: 50,
+        perceptionRadius: 400,
+        perceptionPerRadius: 5,
+        fleeMargin: 160,
+        splitAttackRange: 200,
+        splitAttackChance: 0.8,
+        decisionNoise: 0
+    }
+};
+
+export interface BotConfig {
+    botCount: number; // Bots que se mantienen en la partida
+    difficulty: BotDifficulty; // Preset de los bots que se generan automáticamente
+    respawnDelay: number; // ms desde la muerte hasta reaparecer (Infinity: no reaparecen)
+}
+
+interface BotBrain {
+    id: string;
+    state: BotState;
+    profile: BotProfile;
+    nextThinkTime: number;
+    wanderTarget: Vector2D | null;
+    respawnTime: number | null; // Instante de reaparición (null mientras está vivo)
+}
+
+// Lo que un bot ve a su alrededor
+interface Perception {
+    threats: Entity[]; // Células ajenas que pueden comerse alguna de sus células
+    prey: Entity[]; // Células ajenas que su célula principal puede comerse
+    food: Entity[]; // Pellets y masa expulsada
+    viruses: Entity[];
+}
+
+export class BotSystem {
+    private simulation: GameSimulation;
+    private config: BotConfig;
+    private brains: Map<string, BotBrain> = new Map();
+    private nextBotNumber: number = 0;
+
+    constructor(simulation: GameSimulation, config: Partial<BotConfig> = {}) {
+        this.simulation = simulation;
+        this.config = {
+            botCount: 8,
+            difficulty: 'normal',
+            respawnDelay: 3000,
+            ...config
+        };
+
+        // Programar la reaparición de los bots que mueren
+        this.simulation.onPlayerDeath(({ playerId }) => {
+            const brain = this.brains.get(playerId);
+            if (brain) {
+                brain.respawnTime = this.simulation.getTime() + this.config.respawnDelay;
+            }
+        });
+    }
+
+    // Mantener el número de bots y tomar decisiones (llamar en game loop, antes de procesar comandos)
+    update(): void {
+        const now = this.simulation.getTime();
+
+        for (const brain of [...this.brains.values()]) {
+            // Bots eliminados desde fuera de este sistema
+            if (!this.simulation.hasPlayer(brain.id)) {
+                this.brains.delete(brain.id);
+                continue;
+            }
+
+            // Reaparecer con el mismo comando que los jugadores (mantiene rol y equipo)
+            if (brain.respawnTime !== null) {
+                if (this.simulation.isPlayerAlive(brain.id)) {
+                    this.resetBrain(brain);
+                } else if (now >= brain.respawnTime && this.simulation.canRespawn(brain.id)) {
+                    this.simulation.queueCommand(brain.id, { type: 'respawn' });
+                }
+                continue;
+            }
+
+            if (now >= brain.nextThinkTime) {
+                this.think(brain);
+                brain.nextThinkTime = now + brain.profile.reactionDelay;
+            }
+        }
+
+        while (this.brains.size < this.config.botCount) {
+            this.addBot(this.config.difficulty);
+        }
+    }
+
+    // Añadir un bot con un preset de dificultad o un perfil propio (sobre el preset normal)
+    addBot(profile: BotDifficulty | Partial<BotProfile> = this.config.difficulty): string {
+        this.nextBotNumber++;
+        const id = `bot_${this.nextBotNumber}`;
+        const random = this.simulation.getRandom();
+        const resolvedProfile = typeof profile === 'string'
+            ? { ...BOT_DIFFICULTY_PRESETS[profile] }
+            : { ...BOT_DIFFICULTY_PRESETS.normal, ...profile };
+
+        this.simulation.addPlayer(id, 'bot', this.simulation.findSpawnPosition(), this.pickRole());
+        this.brains.set(id, {
+            id,
+            state: 'wander',
+            profile: resolvedProfile,
+            // Repartir las decisiones entre ticks para no pensar todos a la vez
+            nextThinkTime: this.simulation.getTime() + random.range(0, resolvedProfile.reactionDelay),
+            wanderTarget: null,
+            respawnTime: null
+        });
+
+        return id;
+    }
+
+    private resetBrain(brain: BotBrain): void {
+        brain.state = 'wander';
+        brain.wanderTarget = null;
+        brain.respawnTime = null;
+        brain.nextThinkTime = this.simulation.getTime();
+    }
+
+    // Los bots aparecen con un rol al azar
+    private pickRole(): RoleId {
+        const random = this.simulation.getRandom();
+        return ROLE_IDS[random.int(0, ROLE_IDS.length - 1)];
+    }
+
+    // Elegir estado y dirección de movimiento del bot
+    private think(brain: BotBrain): void {
+        const cells = this.simulation.getPlayerCells(brain.id);
+        if (cells.length === 0) return;
+
+        // La célula más grande decide a dónde ir; la más pequeña decide de quién huir
+        let body = cells[0];
+        let smallest = cells[0];
+        for (const cell of cells) {
+            if (cell.mass > body.mass) body = cell;
+            if (cell.mass < smallest.mass) smallest = cell;
+        }
+
+        const perception = this.perceive(brain, body, smallest);
+        const behaviors: Array<{ direction: Vector2D; weight: number }> = [];
+
+        // Evitar virus cuando el bot es lo bastante grande para explotar
+        const physicsConfig = this.simulation.getPhysicsEngine().getConfig();
+        if (body.mass >= physicsConfig.virusPopMass) {
+            for (const virus of perception.viruses) {
+                if (this.edgeDistance(body, virus) < body.radius) {
+                    behaviors.push({ direction: flee(body.position, this.nearestImage(body, virus.position)), weight: 0.6 });
+                }
+            }
+        }
+
+        if (perception.threats.length > 0) {
+            brain.state = 'flee';
+            for (const threat of perception.threats) {
+                // Las amenazas más cercanas pesan más
+                const closeness = 1 - Math.min(1, Math.max(0, this.edgeDistance(body, threat)) / brain.profile.fleeMargin);
+                behaviors.push({ direction: flee(body.position, this.nearestImage(body, threat.position)), weight: 1 + closeness });
+            }
+            behaviors.push({ direction: this.avoidWorldEdge(body, brain.profile.fleeMargin), weight: 1.5 });
+        } else if (perception.prey.length > 0) {
+            const target = this.pickClosest(body, perception.prey);
+
+            if (this.shouldSplitAttack(brain.profile, cells, body, target)) {
+                brain.state = 'split-attack';
+                this.simulation.queueCommand(brain.id, {
+                    type: 'split',
+                    direction: seek(body.position, this.nearestImage(body, target.position))
+                });
+            } else {
+                brain.state = 'chase';
+            }
+
+            // Apuntar a donde estará la presa, no a donde está
+            const leadSeconds = brain.profile.reactionDelay / 1000;
+            const targetPosition = this.nearestImage(body, target.position);
+            const predicted = {
+                x: targetPosition.x + target.velocity.x * leadSeconds,
+                y: targetPosition.y + target.velocity.y * leadSeconds
+            };
+            behaviors.push({ direction: seek(body.position, predicted), weight: 1 });
+        } else if (perception.food.length > 0) {
+            brain.state = 'forage';
+            const target = this.pickClosest(body, perception.food);
+            behaviors.push({ direction: arrive(body.position, this.nearestImage(body, target.position), body.radius), weight: 1 });
+        } else {
+            brain.state = 'wander';
+            behaviors.push({ direction: this.wander(brain, body), weight: 1 });
+        }
+
+        // Volver a la zona segura del battle royale antes de que se cierre encima
+        const safeZone = this.simulation.getBattleRoyaleSystem()?.getZone();
+        if (safeZone) {
+            const margin = body.radius + brain.profile.fleeMargin;
+            const dx = body.position.x - safeZone.center.x;
+            const dy = body.position.y - safeZone.center.y;
+            if (Math.sqrt(dx * dx + dy * dy) > Math.min(safeZone.radius, safeZone.targetRadius + margin) - margin) {
+                behaviors.push({ direction: seek(body.position, safeZone.center), weight: 3 });
+            }
+        }
+
+        const direction = this.applyNoise(combine(behaviors), brain.profile.decisionNoise);
+        this.simulation.queueCommand(brain.id, { type: 'move', direction });
+    }
+
+    // Girar la dirección un ángulo aleatorio (bots menos precisos)
+    private applyNoise(direction: Vector2D, maxAngle: number): Vector2D {
+        if (maxAngle <= 0 || (direction.x === 0 && direction.y === 0)) return direction;
+
+        const angle = this.simulation.getRandom().range(-maxAngle, maxAngle);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return {
+            x: direction.x * cos - direction.y * sin,
+            y: direction.x * sin + direction.y * cos
+        };
+    }
+
+    // Consultar el spatial grid alrededor de la célula principal
+    private perceive(brain: BotBrain, body: Entity, smallest: Entity): Perception {
+        const physicsEngine = this.simulation.getPhysicsEngine();
+        const statusEffects = this.simulation.getStatusEffectSystem();
+        const range = brain.profile.perceptionRadius + body.radius * brain.profile.perceptionPerRadius;
+
+        const perception: Perception = { threats: [], prey: [], food: [], viruses: [] };
+        const nearby = physicsEngine.getSpatialGrid().queryArea(
+            body.position.x - range, body.position.y - range,
+            body.position.x + range, body.position.y + range
+        );
+
+        for (const id of nearby) {
+            const entity = physicsEngine.getEntity(id);
+            if (!entity || entity.ownerId === brain.id) continue;
+            if (!statusEffects.isVisibleTo(entity, brain.id)) continue;
+            // Los compañeros de equipo no son amenaza ni presa
+            if (TeamSystem.areTeammates(body, entity)) continue;
+
+            if (entity.type === 'virus') {
+                perception.viruses.push(entity);
+            } else if (!PhysicsEngine.isCell(entity)) {
+                perception.food.push(entity);
+            } else if (entity.mass >= smallest.mass * physicsEngine.getEatRatio(entity)) {
+                if (this.edgeDistance(body, entity) < brain.profile.fleeMargin) {
+                    perception.threats.push(entity);
+                }
+            } else if (body.mass >= entity.mass * physicsEngine.getEatRatio(body)) {
+                perception.prey.push(entity);
+            }
+        }
+
+        return perception;
+    }
+
+    // Split-attack: solo con una célula y si la mitad lanzada todavía puede comerse a la presa
+    private shouldSplitAttack(profile: BotProfile, cells: Entity[], body: Entity, target: Entity): boolean {
+        if (cells.length > 1) return false;
+
+        const splitMergeSystem = this.simulation.getSplitMergeSystem();
+        const eatRatio = this.simulation.getPhysicsEngine().getEatRatio(body);
+        const launchedMass = body.mass * splitMergeSystem.getConfig().splitRatio;
+
+        if (launchedMass < target.mass * eatRatio) return false;
+        if (this.edgeDistance(body, target) > profile.splitAttackRange) return false;
+        if (!splitMergeSystem.canPlayerSplit(body.id)) return false;
+
+        return this.simulation.getRandom().next() < profile.splitAttackChance;
+    }
+
+    // Deambular hacia un punto aleatorio y elegir otro al llegar
+    private wander(brain: BotBrain, body: Entity): Vector2D {
+        const physicsEngine = this.simulation.getPhysicsEngine();
+        const { worldWidth, worldHeight } = physicsEngine.getConfig();
+        const random = this.simulation.getRandom();
+
+        const reached = brain.wanderTarget !== null &&
+            physicsEngine.getDistance(body.position, brain.wanderTarget) < body.radius;
+
+        if (brain.wanderTarget === null || reached) {
+            let target = { x: random.range(0, worldWidth), y: random.range(0, worldHeight) };
+            if (!physicsEngine.isInsideWorld(target, body.radius)) {
+                target = { x: worldWidth / 2, y: worldHeight / 2 };
+            }
+            brain.wanderTarget = target;
+        }
+
+        return arrive(body.position, this.nearestImage(body, brain.wanderTarget), body.radius * 2);
+    }
+
+    // Empujar hacia el centro cuando la célula está cerca del borde (para no huir contra una pared)
+    // En wrap no hay pared: isInsideWorld acepta cualquier punto del mundo
+    private avoidWorldEdge(body: Entity, margin: number): Vector2D {
+        const physicsEngine = this.simulation.getPhysicsEngine();
+        const { worldWidth, worldHeight } = physicsEngine.getConfig();
+
+        if (physicsEngine.isInsideWorld(body.position, body.radius + margin)) {
+            return { x: 0, y: 0 };
+        }
+        return seek(body.position, { x: worldWidth / 2, y: worldHeight / 2 });
+    }
+
+    private pickClosest(body: Entity, candidates: Entity[]): Entity {
+        let closest = candidates[0];
+        let closestDistance = Infinity;
+        for (const candidate of candidates) {
+            const distance = this.edgeDistance(body, candidate);
+            if (distance < closestDistance) {
+                closest = candidate;
+                closestDistance = distance;
+            }
+        }
+        return closest;
+    }
+
+    // Distancia entre los bordes de dos círculos (negativa si se solapan)
+    private edgeDistance(a: Entity, b: Entity): number {
+        return this.simulation.getPhysicsEngine().getDistance(a.position, b.position) - a.radius - b.radius;
+    }
+
+    // Copia de position más cercana a la célula (en wrap puede estar al otro lado del borde), para steering
+    private nearestImage(body: Entity, position: Vector2D): Vector2D {
+        const delta = this.simulation.getPhysicsEngine().getDelta(body.position, position);
+        return { x: body.position.x + delta.x, y: body.position.y + delta.y };
+    }
+
+    // Estado actual de un bot (para debug)
+    getBotState(botId: string): BotState | undefined {
+        return this.brains.get(botId)?.state;
+    }
+
+    getBotProfile(botId: string): BotProfile | undefined {
+        const brain = this.brains.get(botId);
+        return brain ? { ...brain.profile } : undefined;
+    }
+
+    getBotIds(): string[] {
+        return [...this.brains.keys()];
+    }
+
+    getConfig(): BotConfig {
+        return { ...this.config };
+    }
+}
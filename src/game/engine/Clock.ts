@@ -0,0 +1,27 @@
+// Reloj inyectable para Agario Roles
+// Los sistemas del motor leen el tiempo de aquí en lugar de Date.now()/performance.now()
+
+export interface Clock {
+    now(): number; // ms
+}
+
+// Reloj de simulación: solo avanza cuando la simulación ejecuta un tick
+export class SimulationClock implements Clock {
+    private time: number;
+
+    constructor(startTime: number = 0) {
+        this.time = startTime;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    advance(deltaTime: number): void {
+        this.time += deltaTime;
+    }
+
+    reset(startTime: number = 0): void {
+        this.time = startTime;
+    }
+}
@@ -0,0 +1,93 @@
+// Sistema de expulsión de masa (W) para Agario Roles
+// Cada célula del jugador dispara una porción de masa en la dirección de apuntado
+import type { Vector2D } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { Clock } from './Clock';
+
+export interface EjectConfig {
+    minMassToEject: number; // Masa mínima de la célula para poder expulsar
+    ejectMassCost: number; // Masa que pierde la célula por cada expulsión
+    ejectedMass: number; // Masa de la entidad expulsada (puede ser menor que el coste)
+    ejectSpeed: number; // Velocidad de lanzamiento (px/s)
+    ejectDecay: number; // Fracción de velocidad que pierde la masa expulsada por segundo (0-1)
+    ejectInterval: number; // ms entre expulsiones mientras se mantiene pulsado
+}
+
+export class EjectSystem {
+    private physicsEngine: PhysicsEngine;
+    private clock: Clock;
+    private config: EjectConfig;
+    private lastEjectTime: Map<string, number> = new Map();
+
+    constructor(physicsEngine: PhysicsEngine, clock: Clock, config: Partial<EjectConfig> = {}) {
+        this.physicsEngine = physicsEngine;
+        this.clock = clock;
+        this.config = {
+            minMassToEject: 35,
+            ejectMassCost: 16,
+            ejectedMass: 13,
+            ejectSpeed: 650,
+            ejectDecay: 0.95,
+            ejectInterval: 100,
+            ...config
+        };
+    }
+
+    // Intentar expulsar masa desde todas las células del jugador (respeta el intervalo de repetición)
+    tryEject(playerId: string, direction: Vector2D): boolean {
+        const lastEject = this.lastEjectTime.get(playerId);
+        if (lastEject !== undefined && this.clock.now() - lastEject < this.config.ejectInterval) {
+            return false;
+        }
+
+        const magnitude = Math.sqrt(direction.x ** 2 + direction.y ** 2);
+        if (magnitude === 0) return false;
+        const aim = { x: direction.x / magnitude, y: direction.y / magnitude };
+
+        let ejected = false;
+        for (const cell of this.physicsEngine.getEntitiesByOwner(playerId)) {
+            if (!PhysicsEngine.isCell(cell) || cell.mass < this.config.minMassToEject) continue;
+
+            this.physicsEngine.updateEntityMass(cell.id, cell.mass - this.config.ejectMassCost);
+
+            // Aparecer justo fuera de la célula para que no se la vuelva a comer al instante
+            const ejectedRadius = PhysicsEngine.calculateRadius(this.config.ejectedMass);
+            const offset = cell.radius + ejectedRadius + 2;
+            const blob = this.physicsEngine.createEntity(
+                this.physicsEngine.generateId('ejected'),
+                'ejected',
+                this.config.ejectedMass,
+                {
+                    x: cell.position.x + aim.x * offset,
+                    y: cell.position.y + aim.y * offset
+                }
+            );
+
+            blob.velocity.x = aim.x * this.config.ejectSpeed;
+            blob.velocity.y = aim.y * this.config.ejectSpeed;
+            blob.friction = this.getFrictionPerReferenceTick();
+
+            ejected = true;
+        }
+
+        if (ejected) {
+            this.lastEjectTime.set(playerId, this.clock.now());
+        }
+        return ejected;
+    }
+
+    // Convertir la pérdida por segundo a la fricción por tick de referencia que usa la física
+    private getFrictionPerReferenceTick(): number {
+        const retainedPerSecond = Math.max(0.0001, 1 - this.config.ejectDecay);
+        return Math.pow(retainedPerSecond, PhysicsEngine.REFERENCE_TICK_MS / 1000);
+    }
+
+    // Olvidar el estado de un jugador (al salir de la partida)
+    removePlayer(playerId: string): void {
+        this.lastEjectTime.delete(playerId);
+    }
+
+    getConfig(): EjectConfig {
+        return { ...this.config };
+    }
+}
@@ -1,24 +1,40 @@
 // Motor principal del juego Agario Roles
-import { PhysicsEngine, type Entity, type Vector2D } from './PhysicsEngine';
+// Capa de navegador: canvas, input, UI móvil y game loop sobre GameSimulation
+import { PhysicsEngine, type Vector2D } from './PhysicsEngine';
 import { RenderEngine } from './RenderEngine';
-import { SplitMergeSystem } from './SplitMergeSystem';
+import { GameSimulation, type GameConfig } from './GameSimulation';
+import type { AbilitySlot } from './AbilitySystem';
+import { ROLE_DEFINITIONS } from './Roles';
+import { TEAM_DEFINITIONS } from './TeamSystem';
+import { GAME_MODE_DEFINITIONS } from './GameModes';
+import type { MatchSummary } from './MatchSystem';
+import { SAFE_ZONE_KILLER_ID } from './BattleRoyaleSystem';
+import { SeededRandom } from './Random';
+import { InputManager, type InputAction } from './InputManager';
 import { MobileUI, type MobileUICallbacks } from '../ui/MobileUI';
+import type { MinimapConfig } from '../ui/Minimap';
 
-export interface GameConfig {
-    worldWidth: number;
-    worldHeight: number;
-    playerStartMass: number;
-    pelletMass: number;
-    maxPellets: number;
-    targetFPS: number;
+export type { GameConfig } from './GameSimulation';
+
+// - keyboard: teclas de movimiento, stick del mando o joystick táctil
+// - pointer: las células siguen al cursor, más rápido cuanto más lejos esté (el stick y el joystick táctil siguen funcionando)
+export type InputMode = 'keyboard' | 'pointer';
+
+// Estadísticas de una vida del jugador local
+interface PlayerLifeStats {
+    timeAlive: number; // ms de partida en curso
+    peakMass: number;
+    kills: number;
 }
 
 export class GameEngine {
-    private physicsEngine: PhysicsEngine;
+    private canvas: HTMLCanvasElement;
+    private simulation: GameSimulation;
     private renderEngine: RenderEngine;
-    private splitMergeSystem: SplitMergeSystem;
     private mobileUI: MobileUI;
+    private inputManager: InputManager;
     private config: GameConfig;
+    private previousSummary: MatchSummary | null = null; // Resumen de la última partida terminada antes de reiniciar
     
     private playerId: string = 'player';
     private isRunning: boolean = false;
@@ -26,298 +42,547 @@ export class GameEngine {
     private frameCount: number = 0;
     private fpsHistory: number[] = [];
     
+    // Timestep fijo
+    private fixedDeltaTime: number; // ms por tick de simulación
+    private accumulator: number = 0;
+    
     // Input state
-    private inputDirection: Vector2D = { x: 0, y: 0 };
+    private inputMode: InputMode = 'pointer';
+    private inputDirection: Vector2D = { x: 0, y: 0 }; // Analógico: la magnitud (0-1) es la fracción de velocidad
+    private isEjecting: boolean = false;
     
-    constructor(canvas: HTMLCanvasElement, config: Partial<GameConfig> = {}) {
-        this.config = {
-            worldWidth: 2000,
-            worldHeight: 2000,
-            playerStartMass: 100, // Para testing: m=100 debería dar v_max ≈ 69.7
-            pelletMass: 5,
-            maxPellets: 200,
-            targetFPS: 60,
-            ...config
-        };
+    // Distancia en pantalla entre el cursor y el centro de las células a partir de la que se va a velocidad máxima
+    private static readonly POINTER_FULL_SPEED_DISTANCE = 200;
+    
+    // Vida actual del jugador local y, si ha muerto, cómo terminó (pantalla de muerte)
+    private life: PlayerLifeStats = { timeAlive: 0, peakMass: 0, kills: 0 };
+    private death: (PlayerLifeStats & { killerId: string }) | null = null;
+    
+    // Espectador (solo con el jugador muerto): jugador seguido o cámara libre
+    private spectateTarget: string | null = null; // null: cámara libre
+    private freeCameraCenter: Vector2D | null = null;
+    private static readonly SPECTATE_CANDIDATES = 10; // Se puede observar a los N primeros del leaderboard
+    private static readonly FREE_CAMERA_SPEED = 800; // px de pantalla por segundo
+    
+    constructor(canvas: HTMLCanvasElement, config: Partial<GameConfig> = {}, minimapConfig: Partial<MinimapConfig> = {}) {
+        this.canvas = canvas;
+        this.simulation = this.createSimulation(config);
+        this.config = this.simulation.getConfig();
+        
+        this.fixedDeltaTime = 1000 / this.config.targetFPS;
         
-        this.physicsEngine = new PhysicsEngine();
-        this.renderEngine = new RenderEngine(canvas);
-        this.splitMergeSystem = new SplitMergeSystem(this.physicsEngine);
+        this.renderEngine = new RenderEngine(canvas, minimapConfig);
         
-        // Configurar callbacks para la UI móvil
+        // Teclado, ratón y mandos → acciones
+        this.inputManager = new InputManager(canvas);
+        this.inputManager.onAction((action, pressed) => this.handleAction(action, pressed));
+        
+        // La UI móvil también manda acciones (misma lógica que el resto de dispositivos)
         const mobileCallbacks: MobileUICallbacks = {
             onJoystickMove: (deltaX: number, deltaY: number) => {
-                this.inputDirection.x = deltaX;
-                this.inputDirection.y = deltaY;
+                this.inputManager.setTouchAxis(deltaX, deltaY);
             },
             onSplitPress: () => {
-                const splitDirection = this.inputDirection.x !== 0 || this.inputDirection.y !== 0 
-                    ? { ...this.inputDirection } 
-                    : { x: 0, y: -1 };
-                this.splitMergeSystem.handleSplitInput(this.playerId, splitDirection);
+                this.inputManager.pressAction('split');
+                this.inputManager.releaseAction('split');
+            },
+            onEjectPress: () => {
+                this.inputManager.pressAction('eject');
+            },
+            onEjectRelease: () => {
+                this.inputManager.releaseAction('eject');
             },
             onAbilityQ: () => {
-                console.log('🎯 Habilidad Q activada');
-                this.mobileUI.setAbilityCooldown('Q', 5000); // 5s cooldown
-                // TODO: Implementar habilidad Q en siguiente fase
+                this.inputManager.pressAction('ability-q');
+                this.inputManager.releaseAction('ability-q');
             },
             onAbilityE: () => {
-                console.log('🎯 Habilidad E activada');
-                this.mobileUI.setAbilityCooldown('E', 8000); // 8s cooldown
-                // TODO: Implementar habilidad E en siguiente fase
+                this.inputManager.pressAction('ability-e');
+                this.inputManager.releaseAction('ability-e');
             },
             onAbilityR: () => {
-                console.log('🎯 Ultimate R activada');
-                this.mobileUI.setAbilityCooldown('R', 30000); // 30s cooldown
-                // TODO: Implementar ultimate R en siguiente fase
+                this.inputManager.pressAction('ability-r');
+                this.inputManager.releaseAction('ability-r');
+            },
+            onPinch: (scale: number) => {
+                this.renderEngine.adjustZoom(scale);
+            },
+            onScreenTap: () => {
+                // Reaparecer o empezar otra partida con un toque (sin efecto mientras se juega)
+                for (const action of ['respawn', 'restart'] as const) {
+                    this.inputManager.pressAction(action);
+                    this.inputManager.releaseAction(action);
+                }
             }
         };
         
         const container = canvas.parentElement || document.body;
         this.mobileUI = new MobileUI(canvas, container, mobileCallbacks);
         
+        // En táctil se mueve con el joystick; en escritorio, con el ratón
+        if (this.mobileUI.isActive()) {
+            this.inputMode = 'keyboard';
+        }
+        this.inputManager.setMovementKeysEnabled(this.inputMode === 'keyboard');
+        
         this.setupEventListeners();
         this.initializeGame();
     }
 
+    private createSimulation(config: Partial<GameConfig>): GameSimulation {
+        const simulation = new GameSimulation(config);
+        
+        // Muerte del jugador local y eliminaciones que consigue
+        simulation.onPlayerDeath(({ playerId, killerId }) => {
+            if (playerId === this.playerId) {
+                this.handlePlayerDeath(killerId);
+            } else if (killerId === this.playerId) {
+                this.life.kills++;
+            }
+        });
+        
+        return simulation;
+    }
+
     private setupEventListeners(): void {
-        // Keyboard input
-        document.addEventListener('keydown', (e) => this.handleKeyDown(e));
-        document.addEventListener('keyup', (e) => this.handleKeyUp(e));
+        this.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+        
+        // Zoom manual con la rueda del ratón
+        this.canvas.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            this.renderEngine.adjustZoom(Math.exp(-e.deltaY * 0.001));
+        }, { passive: false });
         
         // Window resize
         window.addEventListener('resize', () => this.renderEngine.resize());
-        
-        // Debug toggle (F3)
-        document.addEventListener('keydown', (e) => {
-            if (e.key === 'F3') {
-                e.preventDefault();
-                this.renderEngine.toggleDebugMode();
-            }
-        });
     }
 
-    private handleKeyDown(e: KeyboardEvent): void {
-        switch (e.key.toLowerCase()) {
-            case 'w':
-            case 'arrowup':
-                this.inputDirection.y = -1;
-                e.preventDefault();
+    // Acciones del InputManager (el eject se mantiene; el resto actúa al pulsar)
+    private handleAction(action: InputAction, pressed: boolean): void {
+        if (action === 'eject') {
+            this.setEjecting(pressed && !this.death);
+            return;
+        }
+        if (!pressed) return;
+        
+        switch (action) {
+            case 'respawn':
+                this.respawn();
                 break;
-            case 's':
-            case 'arrowdown':
-                this.inputDirection.y = 1;
-                e.preventDefault();
+            case 'spectate-previous':
+                if (this.death) this.cycleSpectateTarget(-1);
                 break;
-            case 'a':
-            case 'arrowleft':
-                this.inputDirection.x = -1;
-                e.preventDefault();
+            case 'spectate-next':
+                if (this.death) this.cycleSpectateTarget(1);
                 break;
-            case 'd':
-            case 'arrowright':
-                this.inputDirection.x = 1;
-                e.preventDefault();
+            case 'spectate-free':
+                if (this.death) this.setSpectateTarget(null);
                 break;
-            case ' ':
-                // Split con dirección de movimiento actual
-                const splitDirection = this.inputDirection.x !== 0 || this.inputDirection.y !== 0 
-                    ? { ...this.inputDirection } 
-                    : { x: 0, y: -1 }; // Por defecto hacia arriba
-                
-                this.splitMergeSystem.handleSplitInput(this.playerId, splitDirection);
-                e.preventDefault();
+        }
+        
+        // Las acciones de juego no hacen nada muerto
+        if (this.death && (action === 'split' || action.startsWith('ability-'))) return;
+        
+        switch (action) {
+            case 'split':
+                this.requestSplit();
                 break;
-            case 'q':
-                // Habilidad Q
-                console.log('🎯 Habilidad Q activada (teclado)');
-                this.mobileUI.setAbilityCooldown('Q', 5000); // 5s cooldown
-                // TODO: Implementar habilidad Q en siguiente fase
-                e.preventDefault();
+            case 'ability-q':
+                this.requestAbility('Q');
                 break;
-            case 'e':
-                // Habilidad E
-                console.log('🎯 Habilidad E activada (teclado)');
-                this.mobileUI.setAbilityCooldown('E', 8000); // 8s cooldown
-                // TODO: Implementar habilidad E en siguiente fase
-                e.preventDefault();
+            case 'ability-e':
+                this.requestAbility('E');
                 break;
-            case 'r':
-                // Ultimate R
-                console.log('🎯 Ultimate R activada (teclado)');
-                this.mobileUI.setAbilityCooldown('R', 30000); // 30s cooldown
-                // TODO: Implementar ultimate R en siguiente fase
-                e.preventDefault();
+            case 'ability-r':
+                this.requestAbility('R');
                 break;
-            case 'm':
+            case 'toggle-debug':
+                this.renderEngine.toggleDebugMode();
+                break;
+            case 'toggle-input-mode':
+                this.setInputMode(this.inputMode === 'pointer' ? 'keyboard' : 'pointer');
+                break;
+            case 'toggle-mobile-ui':
                 // Toggle UI móvil (para testing)
                 this.mobileUI.toggle();
                 console.log(`📱 UI móvil: ${this.mobileUI.isShowing() ? 'activada' : 'desactivada'}`);
-                e.preventDefault();
+                break;
+            case 'restart':
+                // Nueva partida desde la pantalla de resultados
+                if (this.simulation.getMatchSystem().getPhase() === 'ended') {
+                    this.restartMatch();
+                }
                 break;
         }
     }
 
-    private handleKeyUp(e: KeyboardEvent): void {
-        switch (e.key.toLowerCase()) {
-            case 'w':
-            case 'arrowup':
-                if (this.inputDirection.y === -1) this.inputDirection.y = 0;
-                break;
-            case 's':
-            case 'arrowdown':
-                if (this.inputDirection.y === 1) this.inputDirection.y = 0;
-                break;
-            case 'a':
-            case 'arrowleft':
-                if (this.inputDirection.x === -1) this.inputDirection.x = 0;
-                break;
-            case 'd':
-            case 'arrowright':
-                if (this.inputDirection.x === 1) this.inputDirection.x = 0;
-                break;
-        }
+    // Nueva partida con la misma configuración y otra semilla, sin recargar la página
+    // (se conservan controles, zoom, modo de input y el resumen de la partida anterior)
+    private restartMatch(): void {
+        this.previousSummary = this.simulation.getMatchSystem().getSummary();
+        
+        this.simulation = this.createSimulation({ ...this.config, seed: SeededRandom.randomSeed() });
+        this.config = this.simulation.getConfig();
+        this.accumulator = 0;
+        
+        this.life = { timeAlive: 0, peakMass: 0, kills: 0 };
+        this.death = null;
+        this.spectateTarget = null;
+        this.freeCameraCenter = null;
+        this.isEjecting = false;
+        this.inputDirection = { x: 0, y: 0 };
+        this.renderEngine.invalidateLeaderboard();
+        
+        console.log('🔁 Nueva partida');
+        this.initializeGame();
     }
 
-    private initializeGame(): void {
-        // Crear jugador en el centro del mundo
-        const playerPosition = {
-            x: this.config.worldWidth / 2,
-            y: this.config.worldHeight / 2
-        };
-        
-        this.physicsEngine.createEntity(
-            this.playerId,
-            'player',
-            this.config.playerStartMass,
-            playerPosition
-        );
-        
-        // Generar pellets iniciales
-        this.generatePellets();
-        
-        console.log('🎮 Juego inicializado');
-        console.log(`📏 Mundo: ${this.config.worldWidth}x${this.config.worldHeight}`);
-        console.log(`🎯 Jugador: masa=${this.config.playerStartMass}, radio=${PhysicsEngine.calculateRadius(this.config.playerStartMass).toFixed(1)}`);
-        console.log(`⚡ Velocidad máxima esperada: ${PhysicsEngine.calculateMaxVelocity(this.config.playerStartMass).toFixed(1)}`);
+    // El jugador local perdió su última célula: guardar la vida y pasar a espectador
+    private handlePlayerDeath(killerId: string): void {
+        this.death = { ...this.life, killerId };
+        this.setEjecting(false);
+        
+        // Empezar observando a quien lo eliminó (si sigue vivo) o al líder
+        const candidates = this.getSpectateCandidates();
+        this.setSpectateTarget(candidates.includes(killerId) ? killerId : candidates[0] ?? null);
     }
 
-    private generatePellets(): void {
-        const currentPellets = this.physicsEngine.getEntitiesByType('pellet');
-        const pelletsToGenerate = this.config.maxPellets - currentPellets.length;
-        
-        for (let i = 0; i < pelletsToGenerate; i++) {
-            // Posición aleatoria en el mundo
-            const position = {
-                x: Math.random() * this.config.worldWidth,
-                y: Math.random() * this.config.worldHeight
-            };
-            
-            // Verificar que no esté muy cerca del jugador
-            const player = this.physicsEngine.getEntity(this.playerId);
-            if (player) {
-                const dx = position.x - player.position.x;
-                const dy = position.y - player.position.y;
-                const distance = Math.sqrt(dx * dx + dy * dy);
-                
-                // No generar pellets muy cerca del jugador
-                if (distance < player.radius + 50) {
-                    continue;
-                }
-            }
-            
-            this.physicsEngine.createEntity(
-                `pellet_${Date.now()}_${i}`,
-                'pellet',
-                this.config.pelletMass,
-                position
-            );
+    // Pedir la reaparición si el modo y la fase de la partida lo permiten (la resuelve el próximo tick)
+    private respawn(): void {
+        if (!this.death || !this.simulation.canRespawn(this.playerId)) return;
+        this.simulation.queueCommand(this.playerId, { type: 'respawn' });
+    }
+
+    // El jugador local vuelve a estar vivo tras el comando de reaparición: fin de la pantalla de muerte
+    private handlePlayerRespawn(): void {
+        this.death = null;
+        this.life = { timeAlive: 0, peakMass: 0, kills: 0 };
+        this.spectateTarget = null;
+        this.freeCameraCenter = null;
+    }
+
+    // Jugadores que se pueden observar: los primeros del leaderboard
+    private getSpectateCandidates(): string[] {
+        return this.simulation.getMassLeaderboard()
+            .slice(0, GameEngine.SPECTATE_CANDIDATES)
+            .map(entry => entry.id)
+            .filter(id => id !== this.playerId);
+    }
+
+    private cycleSpectateTarget(step: number): void {
+        const candidates = this.getSpectateCandidates();
+        if (candidates.length === 0) {
+            this.setSpectateTarget(null);
+            return;
         }
+        
+        const index = this.spectateTarget !== null ? candidates.indexOf(this.spectateTarget) : -1;
+        const next = index === -1
+            ? (step > 0 ? 0 : candidates.length - 1)
+            : (index + step + candidates.length) % candidates.length;
+        this.setSpectateTarget(candidates[next]);
     }
 
-    private updateGame(): void {
-        const currentTime = performance.now();
-        const deltaTime = this.lastFrameTime > 0 ? currentTime - this.lastFrameTime : 16; // Default 16ms
+    // null: cámara libre desde donde esté la cámara ahora
+    private setSpectateTarget(playerId: string | null): void {
+        this.spectateTarget = playerId;
+        this.freeCameraCenter = playerId === null ? this.renderEngine.getCameraCenter() : null;
+    }
+
+    // Cámara del espectador: sigue al jugador elegido o se mueve libre con el eje de movimiento o el cursor
+    private updateSpectatorCamera(alpha: number, frameTime: number): void {
+        // El jugador observado murió: pasar al siguiente
+        if (this.spectateTarget !== null && !this.simulation.isPlayerAlive(this.spectateTarget)) {
+            this.setSpectateTarget(this.getSpectateCandidates()[0] ?? null);
+        }
         
-        // Aplicar input del jugador a todas sus células
-        if (this.inputDirection.x !== 0 || this.inputDirection.y !== 0) {
-            this.splitMergeSystem.applyMovementToAllCells(this.playerId, this.inputDirection);
+        if (this.spectateTarget !== null) {
+            const cells = this.simulation.getPlayerCells(this.spectateTarget)
+                .map(cell => this.simulation.getInterpolatedEntity(cell.id, alpha) ?? cell);
+            this.renderEngine.updateCamera(cells, frameTime);
+            return;
         }
         
-        // Actualizar física
-        this.physicsEngine.update();
+        const center = this.freeCameraCenter ?? this.renderEngine.getCameraCenter();
+        const direction = this.getFreeCameraDirection();
+        const distance = GameEngine.FREE_CAMERA_SPEED * (frameTime / 1000) / this.renderEngine.getCamera().zoom;
+        const next = { x: center.x + direction.x * distance, y: center.y + direction.y * distance };
+        // En wrap la cámara libre no tiene bordes: el mundo se repite
+        this.freeCameraCenter = this.config.worldTopology === 'wrap' ? next : {
+            x: Math.max(0, Math.min(this.config.worldWidth, next.x)),
+            y: Math.max(0, Math.min(this.config.worldHeight, next.y))
+        };
+        this.renderEngine.updateFreeCamera(this.freeCameraCenter, frameTime);
+    }
+
+    // Dirección de la cámara libre: eje de movimiento o, en modo puntero, el cursor respecto al centro de la pantalla
+    private getFreeCameraDirection(): Vector2D {
+        const axis = this.inputManager.getMoveAxis();
+        const pointer = this.inputManager.getPointerPosition();
+        if (axis.x !== 0 || axis.y !== 0 || this.inputMode !== 'pointer' || !pointer) {
+            return axis;
+        }
         
-        // Actualizar sistema de split/merge
-        this.splitMergeSystem.update();
+        const { width, height } = this.renderEngine.getCanvasSize();
+        const dx = pointer.x - width / 2;
+        const dy = pointer.y - height / 2;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance === 0) return { x: 0, y: 0 };
         
-        // Actualizar UI móvil (cooldowns)
-        this.mobileUI.update(deltaTime);
+        const throttle = Math.min(1, distance / GameEngine.POINTER_FULL_SPEED_DISTANCE);
+        return { x: (dx / distance) * throttle, y: (dy / distance) * throttle };
+    }
+
+    // Qué pulsar para una acción en los textos de las pantallas: su tecla o, con la UI táctil, un toque
+    private getActionPrompt(action: InputAction): string {
+        return this.mobileUI.isShowing() ? 'la pantalla' : this.inputManager.getBindingLabel(action);
+    }
+
+    // Dirección de apuntado: stick derecho del mando, el cursor en modo puntero o la de movimiento
+    // (undefined: la simulación usa la última dirección de movimiento)
+    private getAimDirection(): Vector2D | undefined {
+        const stickAim = this.inputManager.getAimAxis();
+        if (stickAim) return stickAim;
+        
+        if (this.inputMode === 'pointer') {
+            const target = this.getPointerTarget();
+            if (target) return target.direction;
+        }
+        const moving = this.inputDirection.x !== 0 || this.inputDirection.y !== 0;
+        return moving ? { ...this.inputDirection } : undefined;
+    }
+
+    // Cursor respecto al centro de masa de las células del jugador (null sin cursor o sin células)
+    private getPointerTarget(): { direction: Vector2D; screenDistance: number } | null {
+        const cells = this.simulation.getPlayerCells(this.playerId);
+        const pointer = this.inputManager.getPointerPosition();
+        if (!pointer || cells.length === 0) return null;
+        
+        // En wrap el cursor puede caer en otra copia del mundo: se usa el vector más corto
+        const physicsEngine = this.simulation.getPhysicsEngine();
+        const center = physicsEngine.getCenterOfMass(cells);
+        const { x: dx, y: dy } = physicsEngine.getDelta(center, this.renderEngine.screenToWorld(pointer));
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance === 0) return null;
         
-        // Procesar colisiones jugador-pellets
-        this.processPlayerCollisions();
+        return {
+            direction: { x: dx / distance, y: dy / distance },
+            screenDistance: distance * this.renderEngine.getCamera().zoom
+        };
+    }
+
+    // Input analógico del modo puntero: hacia el cursor, con velocidad proporcional a su distancia
+    private updatePointerDirection(): void {
+        const target = this.getPointerTarget();
+        if (!target) {
+            this.inputDirection = { x: 0, y: 0 };
+            return;
+        }
         
-        // Mantener pellets en el mundo
-        this.generatePellets();
+        const throttle = Math.min(1, target.screenDistance / GameEngine.POINTER_FULL_SPEED_DISTANCE);
+        this.inputDirection = { x: target.direction.x * throttle, y: target.direction.y * throttle };
+    }
+
+    // Cambiar entre movimiento con teclado y con el ratón
+    setInputMode(mode: InputMode): void {
+        if (this.inputMode === mode) return;
+        this.inputMode = mode;
+        this.inputDirection = { x: 0, y: 0 };
+        this.inputManager.setMovementKeysEnabled(mode === 'keyboard');
+        console.log(`🖱️ Control: ${mode === 'pointer' ? 'ratón' : 'teclado'}`);
+    }
+
+    getInputMode(): InputMode {
+        return this.inputMode;
+    }
+
+    // Split hacia donde se apunta
+    private requestSplit(): void {
+        this.simulation.queueCommand(this.playerId, {
+            type: 'split',
+            direction: this.getAimDirection()
+        });
+    }
+
+    // Habilidad del slot hacia donde se apunta (la simulación valida cooldown y coste)
+    private requestAbility(slot: AbilitySlot): void {
+        this.simulation.queueCommand(this.playerId, {
+            type: 'ability',
+            slot,
+            direction: this.getAimDirection()
+        });
+    }
+
+    // Activar/desactivar eject continuo (la simulación repite según ejectInterval)
+    private setEjecting(active: boolean): void {
+        if (this.isEjecting === active) return;
+        this.isEjecting = active;
+        this.simulation.queueCommand(this.playerId, { type: 'eject', active, direction: active ? this.getAimDirection() : undefined });
+    }
+
+    private initializeGame(): void {
+        // Crear jugador en el centro del mundo
+        this.simulation.addPlayer(this.playerId, 'player', undefined, this.config.playerRole);
+        this.renderEngine.setWorldWrap(this.config.worldTopology === 'wrap'
+            ? { width: this.config.worldWidth, height: this.config.worldHeight }
+            : null);
         
-        // Actualizar cámara para seguir al jugador
-        const player = this.physicsEngine.getEntity(this.playerId);
-        if (player) {
-            this.renderEngine.updateCamera(player.position);
+        console.log('🎮 Juego inicializado');
+        console.log(`📏 Mundo: ${this.config.worldWidth}x${this.config.worldHeight}`);
+        console.log(`🎲 Semilla: ${this.config.seed}`);
+        console.log(`🕹️ Modo: ${GAME_MODE_DEFINITIONS[this.config.gameMode].name}`);
+        console.log(`🎭 Rol: ${ROLE_DEFINITIONS[this.config.playerRole].name}`);
+        const teamId = this.simulation.getPlayerTeam(this.playerId);
+        if (teamId) {
+            console.log(`🏳️ Equipo: ${TEAM_DEFINITIONS[teamId].name} (${this.config.teamCount} equipos)`);
         }
+        console.log(`🎯 Jugador: masa=${this.config.playerStartMass}, radio=${PhysicsEngine.calculateRadius(this.config.playerStartMass).toFixed(1)}`);
+        console.log(`⚡ Velocidad máxima esperada: ${PhysicsEngine.calculateMaxVelocity(this.config.playerStartMass).toFixed(1)}`);
     }
 
-    private processPlayerCollisions(): void {
-        const playerCells = this.splitMergeSystem.getPlayerCells(this.playerId);
-        if (playerCells.length === 0) return;
+    // Un tick de simulación de duración fija
+    private updateGame(deltaTime: number): void {
+        // Ejes analógicos (mando, joystick táctil) y teclas; en modo puntero, si no hay eje, el cursor
+        const axis = this.inputManager.getMoveAxis();
+        if (this.inputMode === 'pointer' && axis.x === 0 && axis.y === 0) {
+            this.updatePointerDirection();
+        } else {
+            this.inputDirection = axis;
+        }
         
-        const pellets = this.physicsEngine.getEntitiesByType('pellet');
+        // Enviar input del jugador local a la simulación
+        this.simulation.queueCommand(this.playerId, {
+            type: 'move',
+            direction: { ...this.inputDirection }
+        });
         
-        // Procesar colisiones para cada célula del jugador
-        for (const cell of playerCells) {
-            for (const pellet of pellets) {
-                if (this.physicsEngine.processEatingCollision(cell.id, pellet.id)) {
-                    // Pellet comido, se eliminó automáticamente en processEatingCollision
-                    console.log(`🍖 Pellet comido por ${cell.id}! Nueva masa: ${cell.mass.toFixed(1)}`);
-                    break; // El pellet ya fue comido, salir del loop interno
-                }
-            }
+        this.simulation.step(deltaTime);
+        
+        if (this.death && this.simulation.isPlayerAlive(this.playerId)) {
+            this.handlePlayerRespawn();
+        }
+        
+        // Estadísticas de la vida actual (solo con la partida en curso)
+        if (!this.death && this.simulation.getMatchSystem().isRunning()) {
+            const mass = this.simulation.getPlayerCells(this.playerId).reduce((total, cell) => total + cell.mass, 0);
+            this.life.timeAlive += deltaTime;
+            this.life.peakMass = Math.max(this.life.peakMass, mass);
         }
     }
 
-    private render(): void {
+    // alpha: fracción del tick actual ya transcurrida, para interpolar entre estados
+    // frameTime: ms reales desde el frame anterior (suavizado de la cámara)
+    private render(alpha: number, frameTime: number): void {
+        // La cámara sigue al centroide de todas las células del jugador (posiciones interpoladas)
+        // o, con el jugador muerto, la controla el espectador
+        if (this.death) {
+            this.updateSpectatorCamera(alpha, frameTime);
+        } else {
+            const playerCells = this.simulation.getPlayerCells(this.playerId)
+                .map(cell => this.simulation.getInterpolatedEntity(cell.id, alpha) ?? cell);
+            this.renderEngine.updateCamera(playerCells, frameTime);
+        }
+        
         // Limpiar canvas
         this.renderEngine.clear();
         
         // Renderizar grid de fondo
         this.renderEngine.renderGrid();
         
+        // Renderizar borde del mundo
+        this.renderEngine.renderWorldBorder(this.config.worldWidth, this.config.worldHeight, this.config.worldTopology);
+        
+        // Zona segura del battle royale (debajo de las entidades)
+        const battleRoyale = this.simulation.getBattleRoyaleSystem();
+        if (battleRoyale) {
+            this.renderEngine.renderSafeZone(battleRoyale.getZone());
+        }
+        
         // Renderizar spatial hash grid (si debug está activo)
         if (this.renderEngine.isDebugMode()) {
-            this.renderEngine.renderSpatialHashGrid(this.physicsEngine.getSpatialGrid());
+            this.renderEngine.renderSpatialHashGrid(this.simulation.getPhysicsEngine().getSpatialGrid());
         }
         
         // Renderizar todas las entidades
-        const entities = this.physicsEngine.getAllEntities();
-        this.renderEngine.renderEntities(entities);
+        // Las células en sigilo de otros jugadores no se dibujan
+        const statusEffects = this.simulation.getStatusEffectSystem();
+        const entities = this.simulation.getInterpolatedEntities(alpha)
+            .filter(entity => statusEffects.isVisibleTo(entity, this.playerId));
+        this.renderEngine.renderEntities(entities, entityId => statusEffects.getEffectTypes(entityId));
+        this.renderEngine.renderAbilityCasts(this.simulation.getAbilitySystem().getActiveCasts(), entities);
         
         // Debug overlay
         if (this.renderEngine.isDebugMode()) {
-            const player = this.physicsEngine.getEntity(this.playerId);
-            const playerDebugInfo = player ? this.physicsEngine.getEntityDebugInfo(this.playerId) : null;
-            const splitInfo = this.splitMergeSystem.getPlayerSplitInfo(this.playerId);
-            const spatialStats = this.physicsEngine.getSpatialGrid().getStats();
+            const physicsEngine = this.simulation.getPhysicsEngine();
+            const playerDebugInfo = physicsEngine.getEntityDebugInfo(this.playerId);
+            const splitInfo = this.simulation.getSplitMergeSystem().getPlayerSplitInfo(this.playerId);
+            const spatialStats = physicsEngine.getSpatialGrid().getStats();
+            const collisionStats = physicsEngine.getCollisionStats();
             
             this.renderEngine.renderDebugOverlay(
                 this.getCurrentFPS(),
                 entities.length,
                 playerDebugInfo,
                 splitInfo,
-                spatialStats
+                spatialStats,
+                collisionStats
             );
         }
         
-        // Renderizar UI móvil (encima de todo)
+        // Leaderboard por masa (con los equipos en modo equipos)
+        this.renderEngine.renderLeaderboard(
+            this.simulation.getMassLeaderboard(),
+            this.playerId,
+            this.simulation.getTeamSystem()?.getTeamScores()
+        );
+        
+        // HUD de buffs activos del jugador
+        this.renderEngine.renderBuffsHUD(statusEffects.getPlayerEffects(this.playerId), this.simulation.getTime());
+        if (battleRoyale) {
+            this.renderEngine.renderZoneHUD(battleRoyale.getZone(), battleRoyale.getAliveCount());
+        }
+        
+        // Tiempo de partida (debajo del HUD de la zona si lo hay)
+        const match = this.simulation.getMatchSystem();
+        if (match.isRunning() && Number.isFinite(this.config.matchDuration)) {
+            this.renderEngine.renderMatchTimer(match.getTimeRemaining(), battleRoyale ? 78 : 44);
+        }
+        
+        // Minimapa (fuera de la zona de los controles táctiles)
+        this.renderEngine.renderMinimap(
+            entities,
+            { width: this.config.worldWidth, height: this.config.worldHeight, topology: this.config.worldTopology },
+            this.playerId,
+            this.simulation.getPlayerTeam(this.playerId),
+            this.mobileUI.getOccupiedRegions()
+        );
+        
+        // Renderizar UI móvil (encima de todo), con los cooldowns que lleva la simulación
+        this.mobileUI.setAbilityStates(this.simulation.getAbilitySystem().getSlotStates(this.playerId));
         this.mobileUI.render(this.renderEngine.getContext());
+        
+        // Cuenta atrás y pantalla de resultados
+        const summary = match.getSummary();
+        if (match.getPhase() === 'countdown') {
+            this.renderEngine.renderCountdown(match.getTimeRemaining());
+        } else if (summary) {
+            this.renderEngine.renderMatchResults(summary, this.playerId, this.getActionPrompt('restart'));
+        } else if (this.death) {
+            this.renderEngine.renderDeathScreen({
+                killer: this.death.killerId === SAFE_ZONE_KILLER_ID ? 'la zona' : this.death.killerId,
+                timeAlive: this.death.timeAlive,
+                peakMass: this.death.peakMass,
+                kills: this.death.kills,
+                canRespawn: this.simulation.canRespawn(this.playerId),
+                respawnKey: this.getActionPrompt('respawn'),
+                spectating: this.spectateTarget,
+                spectateKeys: {
+                    previous: this.inputManager.getBindingLabel('spectate-previous'),
+                    next: this.inputManager.getBindingLabel('spectate-next'),
+                    free: this.inputManager.getBindingLabel('spectate-free')
+                }
+            });
+        }
     }
 
     private calculateFPS(currentTime: number): void {
@@ -351,11 +616,29 @@ export class GameEngine {
     private gameLoop = (currentTime: number): void => {
         if (!this.isRunning) return;
         
+        const frameTime = this.lastFrameTime > 0 ? currentTime - this.lastFrameTime : 0;
         this.calculateFPS(currentTime);
         
-        // Update y render
-        this.updateGame();
-        this.render();
+        // Leer los mandos (la Gamepad API se consulta por frame)
+        this.inputManager.update();
+        
+        // Acumular tiempo real y consumirlo en ticks fijos
+        this.accumulator += frameTime;
+        
+        let steps = 0;
+        while (this.accumulator >= this.fixedDeltaTime && steps < this.config.maxCatchUpSteps) {
+            this.updateGame(this.fixedDeltaTime);
+            this.accumulator -= this.fixedDeltaTime;
+            steps++;
+        }
+        
+        // Si seguimos atrasados (pestaña en segundo plano, dispositivo lento), descartar el resto
+        if (this.accumulator >= this.fixedDeltaTime) {
+            this.accumulator = this.accumulator % this.fixedDeltaTime;
+        }
+        
+        // Renderizar interpolando entre el tick anterior y el actual
+        this.render(this.accumulator / this.fixedDeltaTime, frameTime);
         
         // Continuar el loop
         requestAnimationFrame(this.gameLoop);
@@ -367,6 +650,7 @@ export class GameEngine {
         
         this.isRunning = true;
         this.lastFrameTime = 0;
+        this.accumulator = 0;
         console.log('🚀 Iniciando game loop...');
         requestAnimationFrame(this.gameLoop);
     }
@@ -382,23 +666,34 @@ export class GameEngine {
 
     // Obtener información del jugador
     getPlayerInfo(): any {
-        return this.physicsEngine.getEntityDebugInfo(this.playerId);
+        return this.simulation.getPhysicsEngine().getEntityDebugInfo(this.playerId);
     }
 
     // Obtener estadísticas del juego
     getGameStats(): any {
-        const entities = this.physicsEngine.getAllEntities();
+        const physicsEngine = this.simulation.getPhysicsEngine();
         return {
             fps: this.getCurrentFPS(),
-            entityCount: entities.length,
-            pelletCount: this.physicsEngine.getEntitiesByType('pellet').length,
+            entityCount: physicsEngine.getAllEntities().length,
+            pelletCount: physicsEngine.getEntitiesByType('pellet').length,
             playerInfo: this.getPlayerInfo()
         };
     }
 
+    // Resumen de la partida terminada (mismo formato que POST /persist-match)
+    // Tras reiniciar, el de la anterior hasta que termine la nueva
+    getMatchSummary(): MatchSummary | null {
+        return this.simulation.getMatchSystem().getSummary() ?? this.previousSummary;
+    }
+
+    // Bindings de controles (reasignar, restaurar)
+    getInputManager(): InputManager {
+        return this.inputManager;
+    }
+
     // Para testing: establecer masa específica del jugador
     setPlayerMass(mass: number): void {
-        this.physicsEngine.updateEntityMass(this.playerId, mass);
+        this.simulation.setEntityMass(this.playerId, mass);
         console.log(`🎯 Masa del jugador cambiada a: ${mass}`);
         console.log(`⚡ Nueva velocidad máxima: ${PhysicsEngine.calculateMaxVelocity(mass).toFixed(1)}`);
     }
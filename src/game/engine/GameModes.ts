@@ -0,0 +1,30 @@
+// Modos de juego de Agario Roles
+// Cada modo es una definición de datos: qué sistemas activa la simulación y con qué configuración
+import type { BattleRoyaleConfig } from './BattleRoyaleSystem';
+
+export type GameMode = 'ffa' | 'teams' | 'battle-royale' | 'team-battle-royale';
+
+export interface GameModeDefinition {
+    id: GameMode;
+    name: string;
+    teams: boolean; // Reparte a los jugadores en equipos (ver TeamSystem.ts)
+    respawn: boolean; // Los jugadores y bots reaparecen al morir
+    battleRoyale?: Partial<BattleRoyaleConfig>; // Zona segura por fases y último en pie (ver BattleRoyaleSystem.ts)
+}
+
+export const GAME_MODE_DEFINITIONS: Record<GameMode, GameModeDefinition> = {
+    // Todos contra todos
+    ffa: { id: 'ffa', name: 'Todos contra todos', teams: false, respawn: true },
+    // Equipos equilibrados; los compañeros no se comen entre sí
+    teams: { id: 'teams', name: 'Equipos', teams: true, respawn: true },
+    // Último jugador en pie dentro de una zona que se cierra
+    'battle-royale': { id: 'battle-royale', name: 'Battle royale', teams: false, respawn: false, battleRoyale: {} },
+    // Último equipo en pie
+    'team-battle-royale': { id: 'team-battle-royale', name: 'Battle royale por equipos', teams: true, respawn: false, battleRoyale: {} }
+};
+
+export const GAME_MODES = Object.keys(GAME_MODE_DEFINITIONS) as GameMode[];
+
+export function isGameMode(value: unknown): value is GameMode {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GAME_MODE_DEFINITIONS, value);
+}
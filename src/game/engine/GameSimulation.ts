@@ -0,0 +1,750 @@
+// Simulación headless de Agario Roles
+// No depende del DOM, canvas ni UI: puede correr en tests, benchmarks o en un servidor Node
+import { PhysicsEngine, type Entity, type Vector2D, type WorldTopology } from './PhysicsEngine';
+import { SplitMergeSystem } from './SplitMergeSystem';
+import { EjectSystem } from './EjectSystem';
+import { VirusSystem } from './VirusSystem';
+import { BotSystem, type BotDifficulty } from './BotSystem';
+import { AbilitySystem, type AbilitySlot } from './AbilitySystem';
+import { registerAbilities } from './Abilities';
+import { StatusEffectSystem } from './StatusEffectSystem';
+import { PowerUpSystem } from './PowerUpSystem';
+import { TeamSystem, type TeamId } from './TeamSystem';
+import { BattleRoyaleSystem } from './BattleRoyaleSystem';
+import { GAME_MODE_DEFINITIONS, type GameMode } from './GameModes';
+import { MatchSystem } from './MatchSystem';
+import { ROLE_DEFINITIONS, getRoleDefinition, type RoleId } from './Roles';
+import { SeededRandom } from './Random';
+import { SimulationClock, type Clock } from './Clock';
+
+export interface GameConfig {
+    worldWidth: number;
+    worldHeight: number;
+    worldTopology: WorldTopology; // Paredes, toroidal o arena circular
+    playerStartMass: number;
+    pelletMass: number;
+    maxPellets: number;
+    targetFPS: number; // Ticks de simulación por segundo (independiente del refresco del monitor)
+    maxCatchUpSteps: number; // Máximo de ticks a simular por frame para recuperar atraso
+    seed: number; // Semilla del PRNG: misma semilla + mismos inputs → estado idéntico
+    eatRatio: number; // Ratio de masa necesario para que una célula coma a otra
+    virusCount: number; // Virus que se mantienen en el mundo
+    virusMass: number; // Masa de cada virus
+    virusPopMass: number; // Masa mínima de una célula para comerse un virus (y explotar)
+    massDecayThreshold: number; // Masa a partir de la cual las células pierden masa
+    massDecayRate: number; // Fracción de la masa sobre el umbral que se pierde por segundo
+    botCount: number; // Bots controlados por la IA
+    botDifficulty: BotDifficulty; // Preset de dificultad de los bots
+    botRespawnDelay: number; // ms hasta que un bot muerto reaparece (Infinity: no reaparece)
+    playerRole: RoleId; // Rol con el que aparece el jugador local
+    maxPowerUps: number; // Límite global de power-ups en el mapa
+    powerUpRespawnDelay: number; // ms hasta que reaparece un power-up recogido
+    powerUpSpawnPoints: Vector2D[]; // Puntos fijos de aparición (vacío: aleatorio)
+    gameMode: GameMode; // Ver GameModes.ts
+    teamCount: number; // Equipos en los modos por equipos (2-4)
+    matchDuration: number; // ms de partida (Infinity: sin límite)
+    matchCountdown: number; // ms de cuenta atrás antes de empezar (mundo congelado)
+    matchAutoStart: boolean; // Empezar la partida al crear la simulación (si no, queda en lobby hasta start())
+}
+
+// Sin semilla: cada simulación elige una al azar si la configuración no la fija
+export const DEFAULT_GAME_CONFIG: Omit<GameConfig, 'seed'> = {
+    worldWidth: 2000,
+    worldHeight: 2000,
+    worldTopology: 'walls',
+    playerStartMass: 100, // Para testing: m=100 debería dar v_max ≈ 69.7
+    pelletMass: 5,
+    maxPellets: 200,
+    targetFPS: 60,
+    maxCatchUpSteps: 5,
+    eatRatio: 1.25,
+    virusCount: 10,
+    virusMass: 100,
+    virusPopMass: 133,
+    massDecayThreshold: 500,
+    massDecayRate: 0.005,
+    botCount: 8,
+    botDifficulty: 'normal',
+    botRespawnDelay: 3000,
+    playerRole: 'basic',
+    maxPowerUps: 4,
+    powerUpRespawnDelay: 15000,
+    powerUpSpawnPoints: [],
+    gameMode: 'ffa',
+    teamCount: 2,
+    matchDuration: 300000, // 5 minutos
+    matchCountdown: 0,
+    matchAutoStart: true
+};
+
+// Comandos de input que un jugador (humano, bot o red) envía a la simulación
+export type InputCommand =
+    | { type: 'move'; direction: Vector2D }
+    | { type: 'split'; direction?: Vector2D }
+    | { type: 'eject'; active: boolean; direction?: Vector2D } // Mantener pulsado para repetir
+    | { type: 'ability'; slot: AbilitySlot; direction?: Vector2D }
+    | { type: 'respawn' }; // Solo tiene efecto si canRespawn
+
+interface PlayerState {
+    id: string;
+    type: Entity['type'];
+    role: RoleId;
+    moveDirection: Vector2D;
+    aimDirection: Vector2D; // Última dirección no nula (para split/eject sin dirección explícita)
+    isEjecting: boolean;
+    isAlive: boolean;
+}
+
+// Una célula fue comida por otra célula
+export interface CellEatenEvent {
+    cellId: string;
+    ownerId: string;
+    killerCellId: string;
+    killerId: string;
+    mass: number;
+    time: number;
+}
+
+// Un jugador/bot perdió su última célula
+export interface PlayerDeathEvent {
+    playerId: string;
+    killerId: string;
+    time: number;
+}
+
+// Fila del leaderboard: masa total de todas las células de un jugador/bot
+export interface LeaderboardEntry {
+    id: string;
+    type: Entity['type']; // player o bot
+    mass: number;
+    teamId?: TeamId;
+}
+
+export interface SimulationSnapshot {
+    tick: number;
+    time: number; // ms simulados desde el inicio
+    rngState: number;
+    entities: Entity[];
+}
+
+export class GameSimulation {
+    private physicsEngine: PhysicsEngine;
+    private splitMergeSystem: SplitMergeSystem;
+    private ejectSystem: EjectSystem;
+    private virusSystem: VirusSystem;
+    private botSystem: BotSystem;
+    private abilitySystem: AbilitySystem;
+    private statusEffectSystem: StatusEffectSystem;
+    private powerUpSystem: PowerUpSystem;
+    private teamSystem: TeamSystem | null = null; // Solo en los modos por equipos
+    private battleRoyaleSystem: BattleRoyaleSystem | null = null; // Solo en los modos battle royale
+    private matchSystem: MatchSystem;
+    private config: GameConfig;
+    private random: SeededRandom;
+    private clock: Clock;
+
+    private players: Map<string, PlayerState> = new Map();
+    private pendingCommands: Map<string, InputCommand[]> = new Map();
+
+    private cellEatenListeners: Array<(event: CellEatenEvent) => void> = [];
+    private deathListeners: Array<(event: PlayerDeathEvent) => void> = [];
+
+    private tick: number = 0;
+
+    // Sin reloj se usa un SimulationClock propio; uno inyectado (tests, servidor) lo comparten todos los subsistemas
+    constructor(config: Partial<GameConfig> = {}, clock: Clock = new SimulationClock()) {
+        this.config = {
+            ...DEFAULT_GAME_CONFIG,
+            seed: SeededRandom.randomSeed(),
+            ...config
+        };
+
+        this.random = new SeededRandom(this.config.seed);
+        this.clock = clock;
+
+        this.physicsEngine = new PhysicsEngine({
+            eatRatio: this.config.eatRatio,
+            virusPopMass: this.config.virusPopMass,
+            massDecayThreshold: this.config.massDecayThreshold,
+            massDecayRate: this.config.massDecayRate,
+            worldWidth: this.config.worldWidth,
+            worldHeight: this.config.worldHeight,
+            worldTopology: this.config.worldTopology
+        });
+        this.splitMergeSystem = new SplitMergeSystem(this.physicsEngine, this.clock);
+        this.ejectSystem = new EjectSystem(this.physicsEngine, this.clock);
+        this.virusSystem = new VirusSystem(
+            this.physicsEngine,
+            this.splitMergeSystem,
+            this.random,
+            { width: this.config.worldWidth, height: this.config.worldHeight },
+            { virusCount: this.config.virusCount, virusMass: this.config.virusMass }
+        );
+
+        // Modificadores pasivos del rol de cada célula
+        this.physicsEngine.addModifierSource(entity =>
+            PhysicsEngine.isCell(entity) ? getRoleDefinition(entity).modifiers : undefined
+        );
+
+        // Resolver los contactos de comer que detecta el pase de colisiones de la física
+        this.physicsEngine.onContact('eat', ({ predator, prey }) => this.handleEat(predator, prey));
+
+        this.statusEffectSystem = new StatusEffectSystem(this.physicsEngine, this.splitMergeSystem, this.clock);
+        this.abilitySystem = new AbilitySystem(
+            this.physicsEngine,
+            this.splitMergeSystem,
+            this.statusEffectSystem,
+            this.clock
+        );
+        registerAbilities(this.abilitySystem);
+        this.powerUpSystem = new PowerUpSystem(
+            this.physicsEngine,
+            this.splitMergeSystem,
+            this.statusEffectSystem,
+            this.random,
+            this.clock,
+            { width: this.config.worldWidth, height: this.config.worldHeight },
+            {
+                maxPowerUps: this.config.maxPowerUps,
+                respawnDelay: this.config.powerUpRespawnDelay,
+                spawnPoints: this.config.powerUpSpawnPoints
+            }
+        );
+
+        // Sistemas que activa el modo de juego
+        const mode = GAME_MODE_DEFINITIONS[this.config.gameMode];
+        if (mode.teams) {
+            const teamSystem = new TeamSystem(this.physicsEngine, { teamCount: this.config.teamCount });
+            this.onPlayerDeath(({ playerId, killerId }) => teamSystem.recordKill(killerId, playerId));
+            this.teamSystem = teamSystem;
+        }
+        this.matchSystem = new MatchSystem(this, {
+            duration: this.config.matchDuration,
+            countdown: this.config.matchCountdown
+        });
+        if (mode.battleRoyale) {
+            const battleRoyaleSystem = new BattleRoyaleSystem(this, mode.battleRoyale);
+            battleRoyaleSystem.onMatchEnd(() => this.matchSystem.end('last-standing'));
+            this.battleRoyaleSystem = battleRoyaleSystem;
+        }
+        this.botSystem = new BotSystem(this, {
+            botCount: this.config.botCount,
+            difficulty: this.config.botDifficulty,
+            respawnDelay: mode.respawn ? this.config.botRespawnDelay : Infinity
+        });
+
+        // Generar pellets, virus, power-ups y bots iniciales
+        this.generatePellets();
+        this.virusSystem.update();
+        this.powerUpSystem.update();
+        this.botSystem.update();
+
+        if (this.config.matchAutoStart) {
+            this.matchSystem.start();
+        }
+    }
+
+    // Añadir un jugador (o bot) a la simulación con el rol elegido al aparecer
+    // En modo equipos se une al equipo indicado o al que equilibre la partida
+    addPlayer(
+        playerId: string,
+        type: Entity['type'] = 'player',
+        position?: Vector2D,
+        role: RoleId = 'basic',
+        teamId?: TeamId
+    ): Entity {
+        const spawnPosition = position || {
+            x: this.config.worldWidth / 2,
+            y: this.config.worldHeight / 2
+        };
+
+        const entity = this.physicsEngine.createEntity(
+            playerId,
+            type,
+            this.config.playerStartMass,
+            spawnPosition,
+            playerId
+        );
+        entity.role = role;
+        this.teamSystem?.assignPlayer(playerId, teamId);
+
+        this.players.set(playerId, {
+            id: playerId,
+            type,
+            role,
+            moveDirection: { x: 0, y: 0 },
+            aimDirection: { x: 0, y: -1 }, // Por defecto hacia arriba
+            isEjecting: false,
+            isAlive: true
+        });
+        this.abilitySystem.setLoadout(playerId, ROLE_DEFINITIONS[role].kit);
+
+        return entity;
+    }
+
+    // Eliminar un jugador y todas sus células
+    removePlayer(playerId: string): void {
+        for (const cell of this.splitMergeSystem.getPlayerCells(playerId)) {
+            this.physicsEngine.removeEntity(cell.id);
+        }
+        this.players.delete(playerId);
+        this.pendingCommands.delete(playerId);
+        this.ejectSystem.removePlayer(playerId);
+        this.abilitySystem.removePlayer(playerId);
+        this.statusEffectSystem.removePlayer(playerId);
+        this.teamSystem?.removePlayer(playerId);
+    }
+
+    getPlayerIds(): string[] {
+        return [...this.players.keys()];
+    }
+
+    hasPlayer(playerId: string): boolean {
+        return this.players.has(playerId);
+    }
+
+    getPlayerRole(playerId: string): RoleId | undefined {
+        return this.players.get(playerId)?.role;
+    }
+
+    getPlayerTeam(playerId: string): TeamId | undefined {
+        return this.teamSystem?.getTeam(playerId);
+    }
+
+    isPlayerAlive(playerId: string): boolean {
+        return this.players.get(playerId)?.isAlive ?? false;
+    }
+
+    // Un jugador muerto puede reaparecer si el modo lo permite y la partida sigue en curso
+    canRespawn(playerId: string): boolean {
+        const player = this.players.get(playerId);
+        return player !== undefined && !player.isAlive &&
+            GAME_MODE_DEFINITIONS[this.config.gameMode].respawn && this.matchSystem.isRunning();
+    }
+
+    // Reaparecer lejos de otras células, con el mismo rol y equipo (null si no puede reaparecer)
+    // Usa el PRNG: solo se llama dentro del step, desde el comando 'respawn'
+    private respawnPlayer(playerId: string): Entity | null {
+        if (!this.canRespawn(playerId)) return null;
+
+        const player = this.players.get(playerId)!;
+        const teamId = this.getPlayerTeam(playerId);
+        this.removePlayer(playerId);
+        const entity = this.addPlayer(playerId, player.type, this.findSpawnPosition(), player.role, teamId);
+
+        console.log(`🔄 ${playerId} reaparece en (${entity.position.x.toFixed(0)}, ${entity.position.y.toFixed(0)})`);
+        return entity;
+    }
+
+    // Jugadores y bots vivos ordenados por masa total (suma de todas sus células)
+    getMassLeaderboard(): LeaderboardEntry[] {
+        const entries: LeaderboardEntry[] = [];
+        for (const player of this.players.values()) {
+            const cells = this.splitMergeSystem.getPlayerCells(player.id);
+            if (cells.length === 0) continue;
+
+            entries.push({
+                id: player.id,
+                type: player.type,
+                mass: cells.reduce((total, cell) => total + cell.mass, 0),
+                teamId: this.getPlayerTeam(player.id)
+            });
+        }
+        return entries.sort((a, b) => b.mass - a.mass);
+    }
+
+    // Suscripciones a eventos de la simulación (devuelven una función para desuscribirse)
+    onCellEaten(listener: (event: CellEatenEvent) => void): () => void {
+        this.cellEatenListeners.push(listener);
+        return () => {
+            this.cellEatenListeners = this.cellEatenListeners.filter(l => l !== listener);
+        };
+    }
+
+    onPlayerDeath(listener: (event: PlayerDeathEvent) => void): () => void {
+        this.deathListeners.push(listener);
+        return () => {
+            this.deathListeners = this.deathListeners.filter(l => l !== listener);
+        };
+    }
+
+    // Encolar un comando para procesarlo en el próximo step
+    queueCommand(playerId: string, command: InputCommand): void {
+        if (!this.players.has(playerId)) return;
+
+        const commands = this.pendingCommands.get(playerId) || [];
+        commands.push(command);
+        this.pendingCommands.set(playerId, commands);
+    }
+
+    // Avanzar la simulación un tick de deltaTime ms
+    step(deltaTime: number): void {
+        // Estado anterior para interpolar: antes de que bots, habilidades, efectos o la atracción muevan nada
+        this.physicsEngine.snapshotStates();
+
+        // Fuera de la fase 'running' el mundo está congelado: solo corre el reloj (cuenta atrás)
+        if (!this.matchSystem.isRunning()) {
+            this.pendingCommands.clear();
+            this.matchSystem.update(deltaTime);
+            this.tick++;
+            this.advanceClock(deltaTime);
+            return;
+        }
+
+        // Los bots deciden con el estado del tick anterior y encolan sus comandos
+        this.botSystem.update();
+
+        // Procesar comandos encolados
+        this.processCommands();
+
+        // Resolver habilidades cuyo casteo termina en este tick
+        this.abilitySystem.update();
+
+        // Caducar efectos de estado y ejecutar sus ticks (antes del movimiento, que usa sus modificadores)
+        this.statusEffectSystem.update();
+
+        // Aplicar input de cada jugador a todas sus células
+        for (const player of this.players.values()) {
+            const direction = player.moveDirection;
+            if (direction.x !== 0 || direction.y !== 0) {
+                this.splitMergeSystem.applyMovementToAllCells(player.id, direction);
+            }
+        }
+
+        // Expulsar masa mientras se mantenga pulsado
+        for (const player of this.players.values()) {
+            if (player.isEjecting) {
+                this.ejectSystem.tryEject(player.id, player.aimDirection);
+            }
+        }
+
+        // Actualizar sistema de split/merge (atracción entre células hermanas)
+        this.splitMergeSystem.update(deltaTime);
+
+        // Actualizar física (incluye el pase de colisiones y sus eventos de contacto;
+        // la repulsión y fusión de hermanas se resuelven en los contactos merge-candidate)
+        this.physicsEngine.update(deltaTime);
+
+        // Zona segura del battle royale (daño fuera de la zona y fin de partida)
+        this.battleRoyaleSystem?.update(deltaTime);
+
+        // Mantener pellets, virus y power-ups en el mundo
+        this.generatePellets();
+        this.virusSystem.update();
+        this.powerUpSystem.update();
+
+        // Estadísticas de la partida y tiempo límite
+        this.matchSystem.update(deltaTime);
+
+        this.tick++;
+        this.advanceClock(deltaTime);
+    }
+
+    // Un SimulationClock avanza con cada tick; cualquier otro reloj (p. ej. de pared) lo avanza su dueño
+    private advanceClock(deltaTime: number): void {
+        if (this.clock instanceof SimulationClock) {
+            this.clock.advance(deltaTime);
+        }
+    }
+
+    private processCommands(): void {
+        for (const [playerId, commands] of this.pendingCommands.entries()) {
+            let player = this.players.get(playerId);
+            if (!player) continue;
+
+            for (const command of commands) {
+                switch (command.type) {
+                    case 'move':
+                        player.moveDirection = { ...command.direction };
+                        if (command.direction.x !== 0 || command.direction.y !== 0) {
+                            player.aimDirection = { ...command.direction };
+                        }
+                        break;
+                    case 'split': {
+                        // Split con la dirección indicada o la última de movimiento
+                        const splitDirection = command.direction ? { ...command.direction } : { ...player.aimDirection };
+                        this.splitMergeSystem.handleSplitInput(playerId, splitDirection);
+                        break;
+                    }
+                    case 'eject':
+                        player.isEjecting = command.active;
+                        if (command.direction && (command.direction.x !== 0 || command.direction.y !== 0)) {
+                            player.aimDirection = { ...command.direction };
+                        }
+                        break;
+                    case 'ability': {
+                        const abilityDirection = command.direction ? { ...command.direction } : { ...player.aimDirection };
+                        this.abilitySystem.tryActivate(playerId, command.slot, abilityDirection);
+                        break;
+                    }
+                    case 'respawn':
+                        // Reaparecer crea un estado de jugador nuevo: los comandos siguientes van a él
+                        if (this.respawnPlayer(playerId)) {
+                            player = this.players.get(playerId)!;
+                        }
+                        break;
+                }
+            }
+        }
+
+        this.pendingCommands.clear();
+    }
+
+    private generatePellets(): void {
+        const currentPellets = this.physicsEngine.getEntitiesByType('pellet');
+        const pelletsToGenerate = this.config.maxPellets - currentPellets.length;
+
+        for (let i = 0; i < pelletsToGenerate; i++) {
+            // Posición aleatoria en el mundo (en battle royale, dentro de la zona segura)
+            const position = this.battleRoyaleSystem ? this.battleRoyaleSystem.randomPointInZone() : {
+                x: this.random.range(0, this.config.worldWidth),
+                y: this.random.range(0, this.config.worldHeight)
+            };
+
+            // Descartar posiciones fuera de la arena (topología circular)
+            if (!this.physicsEngine.isInsideWorld(position)) {
+                continue;
+            }
+
+            // No generar pellets muy cerca de ningún jugador
+            if (this.isNearAnyPlayer(position, 50)) {
+                continue;
+            }
+
+            this.physicsEngine.createEntity(
+                this.physicsEngine.generateId('pellet'),
+                'pellet',
+                this.config.pelletMass,
+                position
+            );
+        }
+    }
+
+    // Buscar una posición de aparición alejada de todas las células
+    // Si ningún intento queda a safeDistance, la posición válida más alejada de las células
+    // (y el centro del mundo si ningún intento cae dentro)
+    findSpawnPosition(safeDistance: number = 150, attempts: number = 20): Vector2D {
+        const radius = PhysicsEngine.calculateRadius(this.config.playerStartMass);
+        let best = { x: this.config.worldWidth / 2, y: this.config.worldHeight / 2 };
+        let bestClearance = -Infinity;
+
+        for (let i = 0; i < attempts; i++) {
+            const position = {
+                x: this.random.range(radius, this.config.worldWidth - radius),
+                y: this.random.range(radius, this.config.worldHeight - radius)
+            };
+            if (!this.physicsEngine.isInsideWorld(position, radius)) continue;
+
+            const clearance = this.getCellClearance(position);
+            if (clearance >= radius + safeDistance) return position;
+            if (clearance > bestClearance) {
+                best = position;
+                bestClearance = clearance;
+            }
+        }
+
+        return best;
+    }
+
+    // Distancia desde una posición hasta el borde de la célula más cercana (Infinity si no hay células)
+    private getCellClearance(position: Vector2D): number {
+        let clearance = Infinity;
+        for (const entity of this.physicsEngine.getAllEntities()) {
+            if (!PhysicsEngine.isCell(entity)) continue;
+
+            clearance = Math.min(clearance, this.physicsEngine.getDistance(position, entity.position) - entity.radius);
+        }
+        return clearance;
+    }
+
+    private isNearAnyPlayer(position: Vector2D, margin: number): boolean {
+        for (const playerId of this.players.keys()) {
+            const player = this.physicsEngine.getEntity(playerId);
+            if (!player) continue;
+
+            if (this.physicsEngine.getDistance(position, player.position) < player.radius + margin) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private handleEat(predator: Entity, prey: Entity): void {
+        if (prey.type === 'virus') {
+            this.virusSystem.handleVirusEaten(predator, prey);
+            return;
+        }
+        if (predator.type === 'virus') {
+            this.virusSystem.handleVirusFed(predator, prey);
+            return;
+        }
+        if (prey.type === 'powerup') {
+            this.powerUpSystem.handlePickup(predator, prey);
+            return;
+        }
+        if (PhysicsEngine.isCell(prey)) {
+            this.eatCell(predator, prey);
+            return;
+        }
+
+        const preyType = prey.type;
+        const preyMass = prey.mass;
+        if (!this.physicsEngine.processEatingCollision(predator.id, prey.id)) return;
+
+        this.matchSystem.recordMassEaten(predator.ownerId ?? predator.id, preyMass);
+        if (preyType === 'pellet' && predator.type === 'player') {
+            console.log(`🍖 Pellet comido por ${predator.id}! Nueva masa: ${predator.mass.toFixed(1)}`);
+        }
+    }
+
+    private eatCell(predator: Entity, prey: Entity): void {
+        const preyMass = prey.mass;
+        if (!this.physicsEngine.processEatingCollision(predator.id, prey.id)) return;
+
+        const ownerId = prey.ownerId ?? prey.id;
+        const killerId = predator.ownerId ?? predator.id;
+        const time = this.clock.now();
+
+        const eatenEvent: CellEatenEvent = {
+            cellId: prey.id,
+            ownerId,
+            killerCellId: predator.id,
+            killerId,
+            mass: preyMass,
+            time
+        };
+        for (const listener of this.cellEatenListeners) {
+            listener(eatenEvent);
+        }
+
+        this.checkPlayerDeath(ownerId, killerId, time);
+    }
+
+    // Eliminar una célula sin que nadie se la coma (p. ej. fuera de la zona segura)
+    eliminateCell(cellId: string, killerId: string): void {
+        const cell = this.physicsEngine.getEntity(cellId);
+        if (!cell || !PhysicsEngine.isCell(cell)) return;
+
+        this.physicsEngine.removeEntity(cellId);
+        this.checkPlayerDeath(cell.ownerId ?? cell.id, killerId, this.clock.now());
+    }
+
+    // Muerte del jugador al perder su última célula
+    private checkPlayerDeath(ownerId: string, killerId: string, time: number): void {
+        const player = this.players.get(ownerId);
+        if (player && player.isAlive && this.splitMergeSystem.getPlayerCells(ownerId).length === 0) {
+            player.isAlive = false;
+            player.moveDirection = { x: 0, y: 0 };
+            player.isEjecting = false;
+
+            console.log(`💀 ${ownerId} fue eliminado por ${killerId}`);
+
+            const deathEvent: PlayerDeathEvent = { playerId: ownerId, killerId, time };
+            for (const listener of this.deathListeners) {
+                listener(deathEvent);
+            }
+        }
+    }
+
+    // Copia profunda del estado actual (para tests, replays o envío por red)
+    getSnapshot(): SimulationSnapshot {
+        return {
+            tick: this.tick,
+            time: this.clock.now(),
+            rngState: this.random.getState(),
+            entities: this.physicsEngine.getAllEntities().map(entity => ({
+                ...entity,
+                position: { ...entity.position },
+                velocity: { ...entity.velocity }
+            }))
+        };
+    }
+
+    // Entidades interpoladas entre el tick anterior y el actual (para render)
+    getInterpolatedEntities(alpha: number): Entity[] {
+        return this.physicsEngine.getInterpolatedEntities(alpha);
+    }
+
+    getInterpolatedEntity(id: string, alpha: number): Entity | undefined {
+        return this.physicsEngine.getInterpolatedEntity(id, alpha);
+    }
+
+    getEntity(id: string): Entity | undefined {
+        return this.physicsEngine.getEntity(id);
+    }
+
+    getPlayerCells(playerId: string): Entity[] {
+        return this.splitMergeSystem.getPlayerCells(playerId);
+    }
+
+    getTick(): number {
+        return this.tick;
+    }
+
+    getTime(): number {
+        return this.clock.now();
+    }
+
+    // PRNG y reloj compartidos por los subsistemas de la simulación
+    getRandom(): SeededRandom {
+        return this.random;
+    }
+
+    getClock(): Clock {
+        return this.clock;
+    }
+
+    getConfig(): GameConfig {
+        return { ...this.config };
+    }
+
+    // Acceso a subsistemas (para debug y render)
+    getPhysicsEngine(): PhysicsEngine {
+        return this.physicsEngine;
+    }
+
+    getSplitMergeSystem(): SplitMergeSystem {
+        return this.splitMergeSystem;
+    }
+
+    getEjectSystem(): EjectSystem {
+        return this.ejectSystem;
+    }
+
+    getVirusSystem(): VirusSystem {
+        return this.virusSystem;
+    }
+
+    getBotSystem(): BotSystem {
+        return this.botSystem;
+    }
+
+    getAbilitySystem(): AbilitySystem {
+        return this.abilitySystem;
+    }
+
+    getStatusEffectSystem(): StatusEffectSystem {
+        return this.statusEffectSystem;
+    }
+
+    getPowerUpSystem(): PowerUpSystem {
+        return this.powerUpSystem;
+    }
+
+    getTeamSystem(): TeamSystem | null {
+        return this.teamSystem;
+    }
+
+    getBattleRoyaleSystem(): BattleRoyaleSystem | null {
+        return this.battleRoyaleSystem;
+    }
+
+    getMatchSystem(): MatchSystem {
+        return this.matchSystem;
+    }
+
+    // Para testing: establecer masa específica de una célula
+    setEntityMass(entityId: string, mass: number): void {
+        this.physicsEngine.updateEntityMass(entityId, mass);
+    }
+}
@@ -0,0 +1,397 @@
+// Capa de input de Agario Roles
+// Traduce teclado, ratón, táctil (vía MobileUI) y mandos (Gamepad API) a acciones abstractas.
+// El motor solo consume acciones y el eje de movimiento; los bindings son reasignables y se guardan en localStorage
+import type { Vector2D } from './PhysicsEngine';
+
+// Acciones de botón (el movimiento además se expone como eje analógico, ver getMoveAxis)
+export type InputAction =
+    | 'move-up'
+    | 'move-down'
+    | 'move-left'
+    | 'move-right'
+    | 'split'
+    | 'eject'
+    | 'ability-q'
+    | 'ability-e'
+    | 'ability-r'
+    | 'toggle-debug'
+    | 'toggle-input-mode'
+    | 'toggle-mobile-ui'
+    | 'restart'
+    | 'respawn'
+    | 'spectate-previous'
+    | 'spectate-next'
+    | 'spectate-free';
+
+// Código de un input físico:
+// - key:<tecla> (KeyboardEvent.key en minúsculas; la barra espaciadora es key:space)
+// - mouse:<botón> (MouseEvent.button)
+// - pad:<botón> (índice en el mapeo estándar de la Gamepad API)
+export type InputBinding = string;
+
+export type InputBindings = Record<InputAction, InputBinding[]>;
+
+export interface InputManagerConfig {
+    stickDeadzone: number; // 0-1, zona muerta radial de los sticks
+    storageKey: string; // Clave de localStorage para los bindings
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+    'move-up': ['key:w', 'key:arrowup', 'pad:12'],
+    'move-down': ['key:s', 'key:arrowdown', 'pad:13'],
+    'move-left': ['key:a', 'key:arrowleft', 'pad:14'],
+    'move-right': ['key:d', 'key:arrowright', 'pad:15'],
+    'split': ['key:space', 'pad:0'],
+    // W solo expulsa cuando las teclas de movimiento están desactivadas (modo puntero)
+    'eject': ['key:f', 'key:w', 'mouse:2', 'pad:1'],
+    'ability-q': ['key:q', 'pad:2'],
+    'ability-e': ['key:e', 'pad:3'],
+    'ability-r': ['key:r', 'pad:5'],
+    'toggle-debug': ['key:f3', 'pad:8'],
+    'toggle-input-mode': ['key:p'],
+    'toggle-mobile-ui': ['key:m'],
+    'restart': ['key:enter', 'pad:9'],
+    'respawn': ['key:enter', 'pad:9'],
+    // Solo con el jugador muerto (espectador)
+    'spectate-previous': ['key:z', 'pad:6'],
+    'spectate-next': ['key:x', 'pad:7'],
+    'spectate-free': ['key:c', 'pad:3']
+};
+
+export const INPUT_ACTIONS = Object.keys(DEFAULT_BINDINGS) as InputAction[];
+
+const MOVE_ACTIONS: InputAction[] = ['move-up', 'move-down', 'move-left', 'move-right'];
+
+export function isInputAction(value: unknown): value is InputAction {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_BINDINGS, value);
+}
+
+export class InputManager {
+    private target: HTMLElement;
+    private config: InputManagerConfig;
+    private bindings: InputBindings;
+    private actionsByBinding: Map<InputBinding, InputAction[]> = new Map();
+
+    private heldInputs: Set<InputBinding> = new Set();
+    private activeActions: Set<InputAction> = new Set();
+    private movementKeysEnabled: boolean = true;
+    private touchAxis: Vector2D = { x: 0, y: 0 };
+    private stickAxis: Vector2D = { x: 0, y: 0 };
+    private aimAxis: Vector2D = { x: 0, y: 0 }; // Stick derecho
+    private pointerPosition: Vector2D | null = null;
+    private padButtons: Set<InputBinding> = new Set(); // Botones del mando pulsados en el último update
+
+    private pendingRebind: { action: InputAction; onDone?: (binding: InputBinding | null) => void } | null = null;
+    private actionListeners: Array<(action: InputAction, pressed: boolean) => void> = [];
+
+    // target: elemento que recibe los clics y el movimiento del ratón (el canvas)
+    constructor(target: HTMLElement, config: Partial<InputManagerConfig> = {}) {
+        this.target = target;
+        this.config = {
+            stickDeadzone: 0.2,
+            storageKey: 'agario-roles:input-bindings',
+            ...config
+        };
+        this.bindings = this.loadBindings();
+        this.indexBindings();
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        document.addEventListener('keydown', (e) => {
+            if (e.repeat) {
+                if (this.actionsByBinding.has(InputManager.keyBinding(e))) e.preventDefault();
+                return;
+            }
+            if (this.handleInput(InputManager.keyBinding(e), true)) e.preventDefault();
+        });
+        document.addEventListener('keyup', (e) => {
+            this.handleInput(InputManager.keyBinding(e), false);
+        });
+
+        this.target.addEventListener('mousedown', (e) => {
+            this.handleInput(`mouse:${e.button}`, true);
+        });
+        window.addEventListener('mouseup', (e) => {
+            this.handleInput(`mouse:${e.button}`, false);
+        });
+        this.target.addEventListener('mousemove', (e) => {
+            const rect = this.target.getBoundingClientRect();
+            this.pointerPosition = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+        });
+
+        // Al perder el foco no llegan los keyup: soltar todo
+        window.addEventListener('blur', () => {
+            this.heldInputs.clear();
+            this.refreshActions();
+        });
+
+        window.addEventListener('gamepadconnected', (e) => {
+            console.log(`🎮 Mando conectado: ${e.gamepad.id}`);
+        });
+    }
+
+    private static keyBinding(e: KeyboardEvent): InputBinding {
+        const key = e.key.toLowerCase();
+        return `key:${key === ' ' ? 'space' : key}`;
+    }
+
+    // Registrar que un input físico se pulsó o soltó; devuelve si estaba asignado a alguna acción
+    private handleInput(binding: InputBinding, pressed: boolean): boolean {
+        if (pressed && this.pendingRebind) {
+            this.completeRebind(binding);
+            return true;
+        }
+
+        if (pressed) {
+            this.heldInputs.add(binding);
+        } else {
+            this.heldInputs.delete(binding);
+        }
+        this.refreshActions();
+        return this.actionsByBinding.has(binding);
+    }
+
+    // Recalcular las acciones activas y avisar de las que cambiaron
+    private refreshActions(): void {
+        const active = new Set<InputAction>();
+        for (const binding of this.heldInputs) {
+            for (const action of this.getActionsFor(binding)) {
+                active.add(action);
+            }
+        }
+
+        const released = [...this.activeActions].filter(action => !active.has(action));
+        const pressed = [...active].filter(action => !this.activeActions.has(action));
+        this.activeActions = active;
+
+        for (const action of released) this.emit(action, false);
+        for (const action of pressed) this.emit(action, true);
+    }
+
+    // Un input asignado a movimiento y a otra acción hace una u otra según estén activas las teclas de movimiento
+    private getActionsFor(binding: InputBinding): InputAction[] {
+        const actions = this.actionsByBinding.get(binding) ?? [];
+        if (!binding.startsWith('key:')) return actions;
+
+        const moves = actions.filter(action => MOVE_ACTIONS.includes(action));
+        if (moves.length === 0) return actions;
+        return this.movementKeysEnabled ? moves : actions.filter(action => !MOVE_ACTIONS.includes(action));
+    }
+
+    private emit(action: InputAction, pressed: boolean): void {
+        for (const listener of this.actionListeners) {
+            listener(action, pressed);
+        }
+    }
+
+    // Leer los mandos (la Gamepad API no tiene eventos de botones; llamar cada frame)
+    update(): void {
+        const pad = this.getGamepad();
+        if (!pad) {
+            if (this.padButtons.size > 0) {
+                for (const binding of this.padButtons) this.heldInputs.delete(binding);
+                this.padButtons.clear();
+                this.refreshActions();
+            }
+            this.stickAxis = { x: 0, y: 0 };
+            this.aimAxis = { x: 0, y: 0 };
+            return;
+        }
+
+        this.stickAxis = this.applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+        this.aimAxis = this.applyDeadzone(pad.axes[2] ?? 0, pad.axes[3] ?? 0);
+
+        const buttons = new Set<InputBinding>();
+        pad.buttons.forEach((button, index) => {
+            if (button.pressed) buttons.add(`pad:${index}`);
+        });
+        for (const binding of buttons) {
+            if (!this.padButtons.has(binding)) this.handleInput(binding, true);
+        }
+        for (const binding of this.padButtons) {
+            if (!buttons.has(binding)) this.handleInput(binding, false);
+        }
+        this.padButtons = buttons;
+    }
+
+    private getGamepad(): Gamepad | null {
+        if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+        return navigator.getGamepads().find((pad): pad is Gamepad => pad !== null && pad.connected) ?? null;
+    }
+
+    // Zona muerta radial, reescalando el resto del recorrido a 0-1 para no perder precisión
+    private applyDeadzone(x: number, y: number): Vector2D {
+        const magnitude = Math.sqrt(x * x + y * y);
+        const deadzone = this.config.stickDeadzone;
+        if (magnitude <= deadzone) return { x: 0, y: 0 };
+
+        const scaled = Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+        return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+    }
+
+    // Eje de movimiento analógico (magnitud 0-1): stick, joystick táctil y teclas de movimiento
+    getMoveAxis(): Vector2D {
+        let x = this.stickAxis.x + this.touchAxis.x;
+        let y = this.stickAxis.y + this.touchAxis.y;
+
+        if (this.activeActions.has('move-right')) x += 1;
+        if (this.activeActions.has('move-left')) x -= 1;
+        if (this.activeActions.has('move-down')) y += 1;
+        if (this.activeActions.has('move-up')) y -= 1;
+
+        const magnitude = Math.sqrt(x * x + y * y);
+        return magnitude > 1 ? { x: x / magnitude, y: y / magnitude } : { x, y };
+    }
+
+    // Dirección de apuntado del stick derecho (null si está en reposo)
+    getAimAxis(): Vector2D | null {
+        return this.aimAxis.x !== 0 || this.aimAxis.y !== 0 ? { ...this.aimAxis } : null;
+    }
+
+    // Cursor en px de pantalla relativos al elemento (null hasta que se mueva el ratón)
+    getPointerPosition(): Vector2D | null {
+        return this.pointerPosition ? { ...this.pointerPosition } : null;
+    }
+
+    // Joystick de MobileUI
+    setTouchAxis(x: number, y: number): void {
+        this.touchAxis = { x, y };
+    }
+
+    // Botones virtuales (MobileUI): pulsar y soltar una acción directamente
+    pressAction(action: InputAction): void {
+        this.handleInput(`virtual:${action}`, true);
+    }
+
+    releaseAction(action: InputAction): void {
+        this.handleInput(`virtual:${action}`, false);
+    }
+
+    // Con el movimiento por ratón las teclas de movimiento quedan libres para sus otras acciones
+    setMovementKeysEnabled(enabled: boolean): void {
+        this.movementKeysEnabled = enabled;
+        this.refreshActions();
+    }
+
+    // Nombre corto del primer binding de teclado de la acción (para textos de ayuda)
+    getBindingLabel(action: InputAction): string {
+        const binding = this.bindings[action].find(b => b.startsWith('key:')) ?? this.bindings[action][0];
+        if (!binding) return '—';
+        return binding.slice(binding.indexOf(':') + 1).toUpperCase();
+    }
+
+    isActionActive(action: InputAction): boolean {
+        return this.activeActions.has(action);
+    }
+
+    onAction(listener: (action: InputAction, pressed: boolean) => void): () => void {
+        this.actionListeners.push(listener);
+        return () => {
+            this.actionListeners = this.actionListeners.filter(l => l !== listener);
+        };
+    }
+
+    // --- Bindings ---
+
+    getBindings(): InputBindings {
+        const copy = {} as InputBindings;
+        for (const action of INPUT_ACTIONS) {
+            copy[action] = [...this.bindings[action]];
+        }
+        return copy;
+    }
+
+    setBindings(action: InputAction, bindings: InputBinding[]): void {
+        this.bindings[action] = [...bindings];
+        this.indexBindings();
+        this.saveBindings();
+    }
+
+    resetBindings(): void {
+        this.bindings = this.getDefaultBindings();
+        this.indexBindings();
+        this.saveBindings();
+    }
+
+    // El siguiente input que se pulse pasa a ser el binding de la acción en su dispositivo (Escape cancela)
+    startRebind(action: InputAction, onDone?: (binding: InputBinding | null) => void): void {
+        this.pendingRebind = { action, onDone };
+        console.log(`⌨️ Pulsa la nueva tecla o botón para "${action}" (Escape cancela)`);
+    }
+
+    private completeRebind(binding: InputBinding): void {
+        const { action, onDone } = this.pendingRebind!;
+        this.pendingRebind = null;
+
+        if (binding === 'key:escape') {
+            onDone?.(null);
+            return;
+        }
+
+        // Sustituye a los bindings del mismo dispositivo (reasignar una tecla no quita el botón del mando)
+        const device = binding.slice(0, binding.indexOf(':') + 1);
+        this.setBindings(action, [...this.bindings[action].filter(b => !b.startsWith(device)), binding]);
+        console.log(`⌨️ ${action} → ${binding}`);
+        onDone?.(binding);
+    }
+
+    private indexBindings(): void {
+        this.actionsByBinding.clear();
+        for (const action of INPUT_ACTIONS) {
+            for (const binding of this.bindings[action]) {
+                const actions = this.actionsByBinding.get(binding) ?? [];
+                actions.push(action);
+                this.actionsByBinding.set(binding, actions);
+            }
+        }
+        // Los botones virtuales de MobileUI siempre disparan su acción
+        for (const action of INPUT_ACTIONS) {
+            this.actionsByBinding.set(`virtual:${action}`, [action]);
+        }
+        this.refreshActions();
+    }
+
+    private getDefaultBindings(): InputBindings {
+        const copy = {} as InputBindings;
+        for (const action of INPUT_ACTIONS) {
+            copy[action] = [...DEFAULT_BINDINGS[action]];
+        }
+        return copy;
+    }
+
+    // Bindings guardados encima de los de por defecto (se ignoran acciones desconocidas y datos corruptos)
+    private loadBindings(): InputBindings {
+        const bindings = this.getDefaultBindings();
+        try {
+            const stored = JSON.parse(localStorage.getItem(this.config.storageKey) ?? '{}');
+            for (const [action, value] of Object.entries(stored)) {
+                if (isInputAction(action) && Array.isArray(value) && value.every(v => typeof v === 'string')) {
+                    bindings[action] = value;
+                }
+            }
+        } catch {
+            console.warn('⚠️ Bindings guardados no válidos, usando los de por defecto');
+        }
+        return bindings;
+    }
+
+    // Solo se guardan las acciones que difieren de los valores por defecto
+    private saveBindings(): void {
+        const changed: Partial<InputBindings> = {};
+        for (const action of INPUT_ACTIONS) {
+            if (this.bindings[action].join() !== DEFAULT_BINDINGS[action].join()) {
+                changed[action] = this.bindings[action];
+            }
+        }
+        try {
+            localStorage.setItem(this.config.storageKey, JSON.stringify(changed));
+        } catch {
+            console.warn('⚠️ No se pudieron guardar los bindings');
+        }
+    }
+
+    getConfig(): InputManagerConfig {
+        return { ...this.config };
+    }
+}
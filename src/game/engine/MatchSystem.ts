@@ -0,0 +1,288 @@
+// Sistema de partidas para Agario Roles
+// Ciclo de vida lobby → countdown → running → ended, puntuación por jugador y resumen final
+// con la misma forma que el payload de /persist-match del backend
+import type { GameSimulation } from './GameSimulation';
+import type { TeamId } from './TeamSystem';
+
+// - lobby: esperando a que alguien llame a start()
+// - countdown: cuenta atrás antes de empezar (mundo congelado)
+// - running: partida en curso
+// - ended: partida terminada (mundo congelado, resumen disponible)
+export type MatchPhase = 'lobby' | 'countdown' | 'running' | 'ended';
+
+// Por qué terminó la partida
+// - time: se agotó el tiempo
+// - last-standing: solo queda un jugador o equipo (battle royale)
+// - manual: alguien llamó a end()
+export type MatchEndReason = 'time' | 'last-standing' | 'manual';
+
+// Puntos por cada unidad de estadística
+export interface MatchScoreWeights {
+    peakMass: number;
+    massEaten: number;
+    kills: number;
+    timeAlive: number; // Por segundo vivo
+}
+
+export interface MatchConfig {
+    roomId: string; // Identificador de la partida en el resumen
+    duration: number; // ms de partida (Infinity: sin límite de tiempo)
+    countdown: number; // ms de cuenta atrás antes de empezar
+    scoreWeights: MatchScoreWeights;
+}
+
+export interface PlayerMatchStats {
+    playerId: string;
+    peakMass: number;
+    massEaten: number; // Pellets, masa expulsada y células comidas
+    kills: number;
+    deaths: number;
+    timeAlive: number; // ms
+}
+
+// Jugador en el resumen (id, mass y score son los campos que lee el backend)
+export interface MatchPlayerResult {
+    id: string;
+    mass: number; // Masa al terminar
+    score: number;
+    rank: number;
+    teamId?: TeamId;
+    peakMass: number;
+    massEaten: number;
+    kills: number;
+    deaths: number;
+    timeAlive: number; // s
+}
+
+// Mismo formato que el body de POST /persist-match
+export interface MatchSummary {
+    roomId: string;
+    duration: number; // s
+    players: MatchPlayerResult[]; // Ordenados por puesto
+    winnerId?: string;
+    metadata: {
+        mode: string;
+        seed: number;
+        endReason: MatchEndReason;
+        winnerTeamId?: TeamId;
+        teamScores?: Array<{ teamId: TeamId; score: number }>;
+    };
+}
+
+export class MatchSystem {
+    private simulation: GameSimulation;
+    private config: MatchConfig;
+    private phase: MatchPhase = 'lobby';
+    private countdownEndsAt: number = 0;
+    private startedAt: number = 0;
+    private endedAt: number = 0;
+    private endReason: MatchEndReason = 'manual';
+    private stats: Map<string, PlayerMatchStats> = new Map();
+    private summary: MatchSummary | null = null;
+    private phaseListeners: Array<(phase: MatchPhase) => void> = [];
+
+    constructor(simulation: GameSimulation, config: Partial<MatchConfig> = {}) {
+        this.simulation = simulation;
+        this.config = {
+            roomId: 'local',
+            duration: 300000, // 5 minutos
+            countdown: 3000,
+            scoreWeights: { peakMass: 1, massEaten: 0.5, kills: 100, timeAlive: 1 },
+            ...config
+        };
+
+        simulation.onCellEaten(({ killerId, mass }) => {
+            this.recordMassEaten(killerId, mass);
+        });
+        simulation.onPlayerDeath(({ playerId, killerId }) => {
+            if (this.phase !== 'running') return;
+            this.getStats(playerId).deaths++;
+            if (killerId !== playerId && simulation.hasPlayer(killerId)) {
+                this.getStats(killerId).kills++;
+            }
+        });
+    }
+
+    // Empezar la cuenta atrás (o la partida directamente si no hay cuenta atrás)
+    start(): void {
+        if (this.phase !== 'lobby') return;
+
+        if (this.config.countdown > 0) {
+            this.countdownEndsAt = this.simulation.getTime() + this.config.countdown;
+            this.setPhase('countdown');
+        } else {
+            this.beginRunning();
+        }
+    }
+
+    private beginRunning(): void {
+        this.startedAt = this.simulation.getTime();
+        this.setPhase('running');
+    }
+
+    // Terminar la partida y calcular el resumen
+    end(reason: MatchEndReason = 'manual'): void {
+        if (this.phase === 'ended') return;
+
+        this.endReason = reason;
+        this.endedAt = this.simulation.getTime();
+        this.summary = this.buildSummary();
+        this.setPhase('ended');
+
+        const winner = this.summary.metadata.winnerTeamId ?? this.summary.winnerId ?? 'nadie';
+        console.log(`🏁 Partida terminada (${reason}): gana ${winner}`);
+    }
+
+    private setPhase(phase: MatchPhase): void {
+        this.phase = phase;
+        for (const listener of this.phaseListeners) {
+            listener(phase);
+        }
+    }
+
+    // Avanzar la cuenta atrás, acumular estadísticas y comprobar el tiempo límite (llamar en game loop)
+    update(deltaTime: number): void {
+        const now = this.simulation.getTime();
+
+        if (this.phase === 'countdown' && now >= this.countdownEndsAt) {
+            this.beginRunning();
+            return;
+        }
+        if (this.phase !== 'running') return;
+
+        for (const playerId of this.simulation.getPlayerIds()) {
+            const stats = this.getStats(playerId);
+            const mass = this.getPlayerMass(playerId);
+            stats.peakMass = Math.max(stats.peakMass, mass);
+            if (this.simulation.isPlayerAlive(playerId)) {
+                stats.timeAlive += deltaTime;
+            }
+        }
+
+        if (now - this.startedAt >= this.config.duration) {
+            this.end('time');
+        }
+    }
+
+    // Masa que un jugador ganó comiendo (la simulación avisa también de pellets y masa expulsada)
+    recordMassEaten(playerId: string, mass: number): void {
+        if (this.phase !== 'running' || !this.simulation.hasPlayer(playerId)) return;
+        this.getStats(playerId).massEaten += mass;
+    }
+
+    private getStats(playerId: string): PlayerMatchStats {
+        let stats = this.stats.get(playerId);
+        if (!stats) {
+            stats = { playerId, peakMass: 0, massEaten: 0, kills: 0, deaths: 0, timeAlive: 0 };
+            this.stats.set(playerId, stats);
+        }
+        return stats;
+    }
+
+    private getPlayerMass(playerId: string): number {
+        return this.simulation.getPlayerCells(playerId).reduce((total, cell) => total + cell.mass, 0);
+    }
+
+    calculateScore(stats: PlayerMatchStats): number {
+        const weights = this.config.scoreWeights;
+        return Math.round(
+            stats.peakMass * weights.peakMass +
+            stats.massEaten * weights.massEaten +
+            stats.kills * weights.kills +
+            (stats.timeAlive / 1000) * weights.timeAlive
+        );
+    }
+
+    // Ranking: en battle royale manda el puesto; si no, la puntuación
+    private buildSummary(): MatchSummary {
+        const gameConfig = this.simulation.getConfig();
+        const royaleResult = this.simulation.getBattleRoyaleSystem()?.getResult();
+        const placements = new Map(royaleResult?.standings.map(s => [s.playerId, s.placement]) ?? []);
+
+        const players = [...this.stats.values()]
+            .map(stats => ({
+                id: stats.playerId,
+                mass: Math.round(this.getPlayerMass(stats.playerId)),
+                score: this.calculateScore(stats),
+                rank: 0,
+                teamId: this.simulation.getPlayerTeam(stats.playerId),
+                peakMass: Math.round(stats.peakMass),
+                massEaten: Math.round(stats.massEaten),
+                kills: stats.kills,
+                deaths: stats.deaths,
+                timeAlive: Math.round(stats.timeAlive / 1000)
+            }))
+            .sort((a, b) =>
+                (placements.get(a.id) ?? Infinity) - (placements.get(b.id) ?? Infinity) || b.score - a.score
+            );
+        players.forEach((player, index) => {
+            player.rank = index + 1;
+        });
+
+        // Puntuación por equipo: suma de sus jugadores
+        const teamTotals = new Map<TeamId, number>();
+        for (const player of players) {
+            if (player.teamId !== undefined) {
+                teamTotals.set(player.teamId, (teamTotals.get(player.teamId) ?? 0) + player.score);
+            }
+        }
+        const teamScores = [...teamTotals].map(([teamId, score]) => ({ teamId, score })).sort((a, b) => b.score - a.score);
+
+        return {
+            roomId: this.config.roomId,
+            duration: Math.round((this.endedAt - this.startedAt) / 1000),
+            players,
+            winnerId: royaleResult ? royaleResult.winnerIds[0] : players[0]?.id,
+            metadata: {
+                mode: gameConfig.gameMode,
+                seed: gameConfig.seed,
+                endReason: this.endReason,
+                ...(teamScores.length > 0 ? {
+                    winnerTeamId: royaleResult?.winnerTeamId ?? teamScores[0].teamId,
+                    teamScores
+                } : {})
+            }
+        };
+    }
+
+    getPhase(): MatchPhase {
+        return this.phase;
+    }
+
+    isRunning(): boolean {
+        return this.phase === 'running';
+    }
+
+    // ms que faltan de cuenta atrás (countdown) o de partida (running)
+    getTimeRemaining(): number {
+        const now = this.simulation.getTime();
+        switch (this.phase) {
+            case 'countdown':
+                return Math.max(0, this.countdownEndsAt - now);
+            case 'running':
+                return Math.max(0, this.startedAt + this.config.duration - now);
+            default:
+                return 0;
+        }
+    }
+
+    getPlayerStats(playerId: string): PlayerMatchStats | undefined {
+        const stats = this.stats.get(playerId);
+        return stats ? { ...stats } : undefined;
+    }
+
+    getSummary(): MatchSummary | null {
+        return this.summary;
+    }
+
+    onPhaseChange(listener: (phase: MatchPhase) => void): () => void {
+        this.phaseListeners.push(listener);
+        return () => {
+            this.phaseListeners = this.phaseListeners.filter(l => l !== listener);
+        };
+    }
+
+    getConfig(): MatchConfig {
+        return { ...this.config, scoreWeights: { ...this.config.scoreWeights } };
+    }
+}
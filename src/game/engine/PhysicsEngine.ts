@@ -14,19 +14,103 @@ export interface Entity {
     velocity: Vector2D;
     mass: number;
     radius: number;
-    type: 'player' | 'pellet' | 'bot';
+    type: 'player' | 'pellet' | 'bot' | 'ejected' | 'virus' | 'powerup';
+    ownerId?: string; // Jugador/bot que controla la célula (compartido por sus splits)
+    role?: string; // Rol del dueño (ver Roles.ts), copiado en cada célula
+    teamId?: string; // Equipo del dueño en modo equipos (ver TeamSystem.ts), copiado en cada célula
+    powerUp?: string; // Tipo de power-up (ver PowerUpSystem.ts)
+    friction?: number; // Fricción propia por tick de referencia (por defecto FRICTION)
+}
+
+// Eventos de contacto emitidos por el pase de colisiones
+// - eat: el predator cumple las reglas para comerse a la presa
+// - touch: dos entidades se solapan sin que ninguna pueda comer a la otra
+// - merge-candidate: dos células del mismo dueño se solapan
+export type ContactEvent =
+    | { type: 'eat'; predator: Entity; prey: Entity }
+    | { type: 'touch'; a: Entity; b: Entity }
+    | { type: 'merge-candidate'; a: Entity; b: Entity };
+
+export type ContactType = ContactEvent['type'];
+
+export type ContactListener<T extends ContactType> = (event: Extract<ContactEvent, { type: T }>) => void;
+
+export interface CollisionStats {
+    candidatePairs: number; // Pares devueltos por el broadphase
+    contacts: number; // Contactos emitidos tras el test de círculos
+}
+
+// Modificadores de stats de una célula (roles, efectos...), todos multiplicativos
+export interface StatModifiers {
+    speedMultiplier: number; // Escala toda la curva de velocidad
+    massSpeedPenalty: number; // Escala el exponente de masa (<1: se frena menos al crecer)
+    eatRatioMultiplier: number; // Escala el eatRatio que necesita para comer células
+    splitCooldownMultiplier: number; // Escala el cooldown de split
+}
+
+export type StatModifierSource = (entity: Entity) => Partial<StatModifiers> | undefined;
+
+// Regla extra de depredación: devolver false impide que predator se coma a prey
+export type EatFilter = (predator: Entity, prey: Entity) => boolean;
+
+// Forma del mundo
+// - walls: rectángulo con paredes sólidas
+// - wrap: toroidal, al salir por un borde se entra por el opuesto (las distancias se miden con getDelta)
+// - circle: arena circular inscrita en el rectángulo del mundo
+export type WorldTopology = 'walls' | 'wrap' | 'circle';
+
+export interface PhysicsConfig {
+    eatRatio: number; // Una célula debe tener eatRatio veces la masa de otra para comerla
+    virusPopMass: number; // Masa mínima de una célula para comerse un virus (y explotar)
+    massDecayThreshold: number; // Masa por debajo de la cual una célula no pierde masa
+    massDecayRate: number; // Fracción de la masa sobre el umbral que se pierde por segundo
+    worldWidth: number;
+    worldHeight: number;
+    worldTopology: WorldTopology;
+}
+
+// Estado de una entidad al inicio del tick (para interpolación de render)
+interface EntityStateSnapshot {
+    x: number;
+    y: number;
+    radius: number;
 }
 
 export class PhysicsEngine {
     private entities: Map<string, Entity> = new Map();
-    private lastUpdate: number = 0;
-    private readonly targetFPS: number = 60;
-    private readonly deltaTime: number = 1000 / this.targetFPS; // ms
+    private previousStates: Map<string, EntityStateSnapshot> = new Map();
     private spatialGrid: SpatialHashGrid;
+    private nextEntityNumber: number = 0;
+    private config: PhysicsConfig;
+    private contactListeners: { [T in ContactType]: ContactListener<T>[] } = {
+        'eat': [],
+        'touch': [],
+        'merge-candidate': []
+    };
+    private collisionStats: CollisionStats = { candidatePairs: 0, contacts: 0 };
+    private modifierSources: StatModifierSource[] = [];
+    private eatFilters: EatFilter[] = [];
+
+    // Fricción calibrada para un tick de referencia de 60Hz
+    static readonly FRICTION = 0.95;
+    static readonly REFERENCE_TICK_MS = 1000 / 60;
 
-    constructor() {
-        this.lastUpdate = performance.now();
-        this.spatialGrid = new SpatialHashGrid(150); // Celdas de 150x150
+    constructor(config: Partial<PhysicsConfig> = {}) {
+        this.config = {
+            eatRatio: 1.25,
+            virusPopMass: 133,
+            massDecayThreshold: 500,
+            massDecayRate: 0.005,
+            worldWidth: 2000,
+            worldHeight: 2000,
+            worldTopology: 'walls',
+            ...config
+        };
+        // Celdas de 150x150; en wrap el grid también envuelve para encontrar vecinos al otro lado del borde
+        this.spatialGrid = new SpatialHashGrid(
+            150,
+            this.config.worldTopology === 'wrap' ? { width: this.config.worldWidth, height: this.config.worldHeight } : undefined
+        );
     }
 
     // Fórmulas fundamentales radius/mass
@@ -41,14 +125,66 @@ export class PhysicsEngine {
     }
 
     // Fórmula de velocidad específica del juego
-    static calculateMaxVelocity(mass: number): number {
-        // v_max = clamp(220 / m^(1/4), 18, 220)
-        const baseVelocity = 220 / Math.pow(mass, 1/4);
-        return Math.max(18, Math.min(220, baseVelocity));
+    static calculateMaxVelocity(mass: number, modifiers?: StatModifiers): number {
+        // v_max = clamp(220 / m^(1/4), 18, 220), escalada por los modificadores de la célula
+        const exponent = (1/4) * (modifiers?.massSpeedPenalty ?? 1);
+        const baseVelocity = 220 / Math.pow(mass, exponent);
+        return Math.max(18, Math.min(220, baseVelocity)) * (modifiers?.speedMultiplier ?? 1);
+    }
+
+    // Registrar una fuente de modificadores (se combinan multiplicando)
+    addModifierSource(source: StatModifierSource): void {
+        this.modifierSources.push(source);
+    }
+
+    getModifiers(entity: Entity): StatModifiers {
+        const modifiers: StatModifiers = {
+            speedMultiplier: 1,
+            massSpeedPenalty: 1,
+            eatRatioMultiplier: 1,
+            splitCooldownMultiplier: 1
+        };
+
+        for (const source of this.modifierSources) {
+            const partial = source(entity);
+            if (!partial) continue;
+            modifiers.speedMultiplier *= partial.speedMultiplier ?? 1;
+            modifiers.massSpeedPenalty *= partial.massSpeedPenalty ?? 1;
+            modifiers.eatRatioMultiplier *= partial.eatRatioMultiplier ?? 1;
+            modifiers.splitCooldownMultiplier *= partial.splitCooldownMultiplier ?? 1;
+        }
+
+        return modifiers;
+    }
+
+    // Registrar una regla extra de depredación (efectos, equipos...)
+    addEatFilter(filter: EatFilter): void {
+        this.eatFilters.push(filter);
+    }
+
+    // Velocidad máxima real de una célula (masa + modificadores)
+    getMaxVelocity(entity: Entity): number {
+        return PhysicsEngine.calculateMaxVelocity(entity.mass, this.getModifiers(entity));
+    }
+
+    // eatRatio que necesita esta célula para comerse a otra
+    getEatRatio(predator: Entity): number {
+        return this.config.eatRatio * this.getModifiers(predator).eatRatioMultiplier;
+    }
+
+    // Generar un ID único y determinista (no depende del reloj del sistema)
+    generateId(prefix: string): string {
+        this.nextEntityNumber++;
+        return `${prefix}_${this.nextEntityNumber}`;
+    }
+
+    // Células controlables (jugadores y bots), a diferencia de la comida
+    static isCell(entity: Entity): boolean {
+        return entity.type === 'player' || entity.type === 'bot';
     }
 
     // Crear entidad con mass y calcular radius automáticamente
-    createEntity(id: string, type: Entity['type'], mass: number, position: Vector2D): Entity {
+    createEntity(id: string, type: Entity['type'], mass: number, position: Vector2D, ownerId?: string): Entity {
         const entity: Entity = {
             id,
             type,
@@ -57,6 +193,9 @@ export class PhysicsEngine {
             position: { ...position },
             velocity: { x: 0, y: 0 }
         };
+        if (ownerId !== undefined) {
+            entity.ownerId = ownerId;
+        }
 
         this.entities.set(id, entity);
         this.spatialGrid.insert(entity);
@@ -73,51 +212,136 @@ export class PhysicsEngine {
         }
     }
 
+    // Desplazar una entidad directamente (correcciones de posición fuera de la integración)
+    translateEntity(entityId: string, offset: Vector2D): void {
+        const entity = this.entities.get(entityId);
+        if (!entity) return;
+
+        entity.position.x += offset.x;
+        entity.position.y += offset.y;
+        this.enforceWorldBounds(entity);
+        this.spatialGrid.update(entity);
+    }
+
     // Aplicar movimiento con límite de velocidad
+    // La magnitud de direction (recortada a 1) es la fracción de la velocidad máxima: input analógico
     applyMovement(entityId: string, direction: Vector2D): void {
         const entity = this.entities.get(entityId);
         if (!entity) return;
 
-        // Calcular velocidad máxima para esta masa
-        const maxVelocity = PhysicsEngine.calculateMaxVelocity(entity.mass);
+        // Calcular velocidad máxima para esta masa y sus modificadores
+        const maxVelocity = this.getMaxVelocity(entity);
         
-        // Normalizar dirección y aplicar velocidad máxima
+        // Normalizar dirección y escalar por la magnitud del input
         const magnitude = Math.sqrt(direction.x * direction.x + direction.y * direction.y);
         if (magnitude > 0) {
-            entity.velocity.x = (direction.x / magnitude) * maxVelocity;
-            entity.velocity.y = (direction.y / magnitude) * maxVelocity;
+            const speed = maxVelocity * Math.min(1, magnitude);
+            entity.velocity.x = (direction.x / magnitude) * speed;
+            entity.velocity.y = (direction.y / magnitude) * speed;
         } else {
             entity.velocity.x = 0;
             entity.velocity.y = 0;
         }
     }
 
+    // Envolver una diferencia de coordenadas a [-size/2, size/2] (mundo toroidal)
+    static wrapOffset(value: number, size: number): number {
+        return value - size * Math.round(value / size);
+    }
+
+    // Vector más corto de from a to (en wrap puede cruzar el borde del mundo)
+    getDelta(from: Vector2D, to: Vector2D): Vector2D {
+        const delta = { x: to.x - from.x, y: to.y - from.y };
+        if (this.config.worldTopology === 'wrap') {
+            delta.x = PhysicsEngine.wrapOffset(delta.x, this.config.worldWidth);
+            delta.y = PhysicsEngine.wrapOffset(delta.y, this.config.worldHeight);
+        }
+        return delta;
+    }
+
+    getDistance(from: Vector2D, to: Vector2D): number {
+        const delta = this.getDelta(from, to);
+        return Math.sqrt(delta.x * delta.x + delta.y * delta.y);
+    }
+
+    // Centro de masa de un grupo de entidades
+    // En wrap se mide desde la primera, así que puede quedar fuera del mundo: usarlo con getDelta
+    getCenterOfMass(entities: Entity[]): Vector2D {
+        if (entities.length === 0) return { x: 0, y: 0 };
+
+        const origin = entities[0].position;
+        let totalMass = 0;
+        let x = 0;
+        let y = 0;
+        for (const entity of entities) {
+            const delta = this.getDelta(origin, entity.position);
+            x += delta.x * entity.mass;
+            y += delta.y * entity.mass;
+            totalMass += entity.mass;
+        }
+        return totalMass > 0
+            ? { x: origin.x + x / totalMass, y: origin.y + y / totalMass }
+            : { x: origin.x, y: origin.y };
+    }
+
     // Detectar colisión entre dos entidades
     checkCollision(entity1: Entity, entity2: Entity): boolean {
-        const dx = entity1.position.x - entity2.position.x;
-        const dy = entity1.position.y - entity2.position.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        return distance < (entity1.radius + entity2.radius);
+        return this.getDistance(entity1.position, entity2.position) < (entity1.radius + entity2.radius);
+    }
+
+    // Reglas de depredación
+    // - Comida: basta con que el predator sea más grande y la toque
+    // - Células: el predator necesita eatRatio veces la masa de la presa
+    //   y el centro de la presa debe estar dentro del predator
+    // - Virus: solo los come una célula con virusPopMass (centro dentro); ellos solo absorben masa expulsada
+    // - Power-ups: cualquier célula que los toque los recoge, sin importar el tamaño
+    // - Las células de un mismo dueño nunca se comen entre sí (se fusionan vía SplitMergeSystem)
+    // - Entre células se aplican además los filtros registrados con addEatFilter
+    canEat(predator: Entity, prey: Entity): boolean {
+        if (predator.type === 'virus') {
+            return prey.type === 'ejected' && this.checkCollision(predator, prey);
+        }
+        if (!PhysicsEngine.isCell(predator)) return false;
+        if (predator.ownerId !== undefined && predator.ownerId === prey.ownerId) return false;
+        if (PhysicsEngine.isCell(prey) && !this.eatFilters.every(filter => filter(predator, prey))) return false;
+
+        if (prey.type === 'virus') {
+            return predator.mass >= this.config.virusPopMass && this.isCenterInside(predator, prey);
+        }
+
+        if (prey.type === 'powerup') {
+            return this.checkCollision(predator, prey);
+        }
+
+        if (!PhysicsEngine.isCell(prey)) {
+            return predator.radius > prey.radius && this.checkCollision(predator, prey);
+        }
+
+        if (predator.mass < prey.mass * this.getEatRatio(predator)) return false;
+
+        return this.isCenterInside(predator, prey);
+    }
+
+    // El centro de inner está dentro del círculo de outer
+    private isCenterInside(outer: Entity, inner: Entity): boolean {
+        const { x: dx, y: dy } = this.getDelta(outer.position, inner.position);
+        return dx * dx + dy * dy < outer.radius * outer.radius;
     }
 
-    // Procesar colisión entre jugador y pellet (comer)
+    // Procesar colisión predator/prey (comer)
     processEatingCollision(predatorId: string, preyId: string): boolean {
         const predator = this.entities.get(predatorId);
         const prey = this.entities.get(preyId);
         
         if (!predator || !prey) return false;
         
-        // Solo puede comer si el predator es más grande
-        if (predator.radius <= prey.radius) return false;
-        
-        if (this.checkCollision(predator, prey)) {
+        if (this.canEat(predator, prey)) {
             // Transferir masa del prey al predator
             const newMass = predator.mass + prey.mass;
             this.updateEntityMass(predatorId, newMass);
             
             // Eliminar el prey
-            this.entities.delete(preyId);
+            this.removeEntity(preyId);
             
             return true;
         }
@@ -127,31 +351,275 @@ export class PhysicsEngine {
 
     // Actualizar todas las posiciones basadas en velocidad
     updatePositions(deltaTime: number): void {
+        // Fricción independiente de la duración del tick
+        const tickRatio = deltaTime / PhysicsEngine.REFERENCE_TICK_MS;
+        const friction = Math.pow(PhysicsEngine.FRICTION, tickRatio);
+
         for (const entity of this.entities.values()) {
             // Actualizar posición basada en velocidad
             entity.position.x += entity.velocity.x * (deltaTime / 1000);
             entity.position.y += entity.velocity.y * (deltaTime / 1000);
             
             // Aplicar fricción gradual
-            entity.velocity.x *= 0.95;
-            entity.velocity.y *= 0.95;
+            const entityFriction = entity.friction !== undefined ? Math.pow(entity.friction, tickRatio) : friction;
+            entity.velocity.x *= entityFriction;
+            entity.velocity.y *= entityFriction;
+            
+            // Detener por completo la masa suelta casi quieta (deja de actualizarse en el grid)
+            if (!PhysicsEngine.isCell(entity) &&
+                entity.velocity.x * entity.velocity.x + entity.velocity.y * entity.velocity.y < 1) {
+                entity.velocity.x = 0;
+                entity.velocity.y = 0;
+            }
+            
+            // Mantener dentro del mundo según la topología
+            this.enforceWorldBounds(entity);
             
-            // Actualizar en spatial grid
-            this.spatialGrid.update(entity);
+            // Actualizar en spatial grid (las entidades quietas, como los pellets, no cambian de celda)
+            if (entity.velocity.x !== 0 || entity.velocity.y !== 0) {
+                this.spatialGrid.update(entity);
+            }
         }
     }
 
-    // Step principal del motor de física
-    update(): void {
-        const currentTime = performance.now();
-        const deltaTime = currentTime - this.lastUpdate;
-        
-        // Limitar delta time para evitar grandes saltos
-        const clampedDelta = Math.min(deltaTime, this.deltaTime * 2);
-        
-        this.updatePositions(clampedDelta);
-        
-        this.lastUpdate = currentTime;
+    // Aplicar los límites del mundo a una entidad
+    private enforceWorldBounds(entity: Entity): void {
+        const { worldWidth, worldHeight, worldTopology } = this.config;
+
+        switch (worldTopology) {
+            case 'walls': {
+                // Clampear el centro para que la célula no atraviese la pared
+                const radius = Math.min(entity.radius, worldWidth / 2, worldHeight / 2);
+                if (entity.position.x < radius || entity.position.x > worldWidth - radius) {
+                    entity.position.x = Math.max(radius, Math.min(worldWidth - radius, entity.position.x));
+                    entity.velocity.x = 0;
+                }
+                if (entity.position.y < radius || entity.position.y > worldHeight - radius) {
+                    entity.position.y = Math.max(radius, Math.min(worldHeight - radius, entity.position.y));
+                    entity.velocity.y = 0;
+                }
+                break;
+            }
+            case 'wrap':
+                // Envolver el centro al lado opuesto (la velocidad se conserva)
+                entity.position.x = ((entity.position.x % worldWidth) + worldWidth) % worldWidth;
+                entity.position.y = ((entity.position.y % worldHeight) + worldHeight) % worldHeight;
+                break;
+            case 'circle': {
+                const centerX = worldWidth / 2;
+                const centerY = worldHeight / 2;
+                const maxDistance = Math.max(0, Math.min(worldWidth, worldHeight) / 2 - entity.radius);
+                const dx = entity.position.x - centerX;
+                const dy = entity.position.y - centerY;
+                const distance = Math.sqrt(dx * dx + dy * dy);
+
+                if (distance > maxDistance && distance > 0) {
+                    const nx = dx / distance;
+                    const ny = dy / distance;
+                    entity.position.x = centerX + nx * maxDistance;
+                    entity.position.y = centerY + ny * maxDistance;
+
+                    // Quitar la componente de velocidad que apunta hacia fuera
+                    const outward = entity.velocity.x * nx + entity.velocity.y * ny;
+                    if (outward > 0) {
+                        entity.velocity.x -= outward * nx;
+                        entity.velocity.y -= outward * ny;
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    // Verificar si un círculo cabe dentro del mundo (para spawns)
+    isInsideWorld(position: Vector2D, radius: number = 0): boolean {
+        const { worldWidth, worldHeight, worldTopology } = this.config;
+
+        if (worldTopology === 'circle') {
+            const dx = position.x - worldWidth / 2;
+            const dy = position.y - worldHeight / 2;
+            const maxDistance = Math.min(worldWidth, worldHeight) / 2 - radius;
+            return dx * dx + dy * dy <= maxDistance * maxDistance;
+        }
+
+        // Sin bordes: cualquier punto del mundo vale, la célula puede asomar por el lado opuesto
+        if (worldTopology === 'wrap') {
+            return position.x >= 0 && position.x < worldWidth && position.y >= 0 && position.y < worldHeight;
+        }
+
+        return position.x >= radius && position.x <= worldWidth - radius &&
+               position.y >= radius && position.y <= worldHeight - radius;
+    }
+
+    // Hay alguna célula a menos de margin px de la posición (para spawns de virus y power-ups)
+    isNearCell(position: Vector2D, margin: number): boolean {
+        const nearby = this.spatialGrid.queryArea(
+            position.x - margin, position.y - margin,
+            position.x + margin, position.y + margin
+        );
+
+        for (const id of nearby) {
+            const entity = this.entities.get(id);
+            if (!entity || !PhysicsEngine.isCell(entity)) continue;
+
+            if (this.getDistance(position, entity.position) < entity.radius + margin) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Pérdida de masa por segundo de una célula (proporcional a la masa sobre el umbral)
+    getMassDecayPerSecond(mass: number): number {
+        const excess = mass - this.config.massDecayThreshold;
+        return excess > 0 ? excess * this.config.massDecayRate : 0;
+    }
+
+    // Decaimiento pasivo de masa por célula, medido en tiempo de simulación
+    private applyMassDecay(deltaTime: number): void {
+        for (const entity of this.entities.values()) {
+            if (!PhysicsEngine.isCell(entity)) continue;
+
+            const loss = this.getMassDecayPerSecond(entity.mass) * (deltaTime / 1000);
+            if (loss > 0) {
+                this.updateEntityMass(entity.id, entity.mass - loss);
+            }
+        }
+    }
+
+    // Step principal del motor de física (deltaTime fijo en ms, lo marca el game loop)
+    // El estado anterior para interpolar lo guarda quien avanza el tick (snapshotStates), antes de
+    // que ningún sistema mueva entidades
+    update(deltaTime: number): void {
+        this.updatePositions(deltaTime);
+        this.applyMassDecay(deltaTime);
+        this.processCollisions();
+    }
+
+    // Suscribirse a un tipo de contacto (devuelve una función para desuscribirse)
+    onContact<T extends ContactType>(type: T, listener: ContactListener<T>): () => void {
+        const listeners = this.contactListeners[type] as ContactListener<T>[];
+        listeners.push(listener);
+        return () => {
+            const index = listeners.indexOf(listener);
+            if (index >= 0) listeners.splice(index, 1);
+        };
+    }
+
+    // Pase de colisiones: broadphase con el spatial grid + narrowphase de círculos
+    // El coste depende de la densidad local, no del total de entidades del mundo
+    processCollisions(): void {
+        const contacts: ContactEvent[] = [];
+        const visited = new Set<string>();
+        let candidatePairs = 0;
+
+        for (const entity of this.entities.values()) {
+            // Los pellets no inician consultas: solo se encuentran desde entidades activas
+            if (entity.type === 'pellet') continue;
+            visited.add(entity.id);
+
+            for (const otherId of this.spatialGrid.query(entity)) {
+                // Par ya evaluado desde la otra entidad
+                if (visited.has(otherId)) continue;
+
+                const other = this.entities.get(otherId);
+                if (!other) continue;
+
+                candidatePairs++;
+                if (!this.checkCollision(entity, other)) continue;
+
+                const contact = this.classifyContact(entity, other);
+                if (contact) contacts.push(contact);
+            }
+        }
+
+        this.collisionStats = { candidatePairs, contacts: contacts.length };
+
+        // Despachar después de detectar: los listeners pueden eliminar entidades
+        for (const contact of contacts) {
+            this.dispatchContact(contact);
+        }
+    }
+
+    // null si el solapamiento no interesa a nadie (p. ej. virus sobre pellets)
+    private classifyContact(a: Entity, b: Entity): ContactEvent | null {
+        if (PhysicsEngine.isCell(a) && PhysicsEngine.isCell(b) &&
+            a.ownerId !== undefined && a.ownerId === b.ownerId) {
+            return { type: 'merge-candidate', a, b };
+        }
+        if (this.canEat(a, b)) return { type: 'eat', predator: a, prey: b };
+        if (this.canEat(b, a)) return { type: 'eat', predator: b, prey: a };
+        if (!PhysicsEngine.isCell(a) && !PhysicsEngine.isCell(b)) return null;
+        return { type: 'touch', a, b };
+    }
+
+    private dispatchContact(contact: ContactEvent): void {
+        switch (contact.type) {
+            case 'eat':
+                // Revalidar: algún listener anterior pudo comer o hacer crecer a alguno de los dos
+                if (!this.entities.has(contact.predator.id) || !this.entities.has(contact.prey.id)) return;
+                if (!this.canEat(contact.predator, contact.prey)) return;
+                for (const listener of this.contactListeners['eat']) listener(contact);
+                break;
+            case 'touch':
+                if (!this.entities.has(contact.a.id) || !this.entities.has(contact.b.id)) return;
+                for (const listener of this.contactListeners['touch']) listener(contact);
+                break;
+            case 'merge-candidate':
+                if (!this.entities.has(contact.a.id) || !this.entities.has(contact.b.id)) return;
+                for (const listener of this.contactListeners['merge-candidate']) listener(contact);
+                break;
+        }
+    }
+
+    getCollisionStats(): CollisionStats {
+        return { ...this.collisionStats };
+    }
+
+    // Guardar el estado de todas las entidades antes de avanzar el tick (estado "anterior" de la interpolación)
+    snapshotStates(): void {
+        this.previousStates.clear();
+        for (const entity of this.entities.values()) {
+            this.previousStates.set(entity.id, {
+                x: entity.position.x,
+                y: entity.position.y,
+                radius: entity.radius
+            });
+        }
+    }
+
+    // Obtener copias de las entidades interpoladas entre el tick anterior y el actual
+    // alpha = 0 → estado anterior, alpha = 1 → estado actual
+    getInterpolatedEntities(alpha: number): Entity[] {
+        const result: Entity[] = [];
+        for (const entity of this.entities.values()) {
+            result.push(this.interpolateEntity(entity, alpha));
+        }
+        return result;
+    }
+
+    getInterpolatedEntity(id: string, alpha: number): Entity | undefined {
+        const entity = this.entities.get(id);
+        return entity ? this.interpolateEntity(entity, alpha) : undefined;
+    }
+
+    private interpolateEntity(entity: Entity, alpha: number): Entity {
+        const previous = this.previousStates.get(entity.id);
+        // Entidades creadas durante el último tick no tienen estado anterior
+        if (!previous) {
+            return { ...entity, position: { ...entity.position } };
+        }
+
+        // En wrap se interpola por el camino corto: al cruzar el borde no atraviesa todo el mapa
+        const delta = this.getDelta(previous, entity.position);
+        return {
+            ...entity,
+            position: {
+                x: previous.x + delta.x * alpha,
+                y: previous.y + delta.y * alpha
+            },
+            radius: previous.radius + (entity.radius - previous.radius) * alpha
+        };
     }
 
     // Obtener entidad por ID
@@ -169,16 +637,27 @@ export class PhysicsEngine {
         return Array.from(this.entities.values()).filter(e => e.type === type);
     }
 
+    // Obtener todas las células de un dueño
+    getEntitiesByOwner(ownerId: string): Entity[] {
+        return Array.from(this.entities.values()).filter(e => e.ownerId === ownerId);
+    }
+
+    getConfig(): PhysicsConfig {
+        return { ...this.config };
+    }
+
     // Eliminar entidad
     removeEntity(id: string): void {
         this.spatialGrid.remove(id);
         this.entities.delete(id);
+        this.previousStates.delete(id);
     }
 
     // Limpiar todas las entidades
     clear(): void {
         this.spatialGrid.clear();
         this.entities.clear();
+        this.previousStates.clear();
     }
 
     // Obtener spatial grid (para debug)
@@ -196,8 +675,10 @@ export class PhysicsEngine {
             type: entity.type,
             mass: entity.mass.toFixed(2),
             radius: entity.radius.toFixed(2),
-            maxVelocity: PhysicsEngine.calculateMaxVelocity(entity.mass).toFixed(2),
+            role: entity.role,
+            maxVelocity: this.getMaxVelocity(entity).toFixed(2),
             currentVelocity: Math.sqrt(entity.velocity.x ** 2 + entity.velocity.y ** 2).toFixed(2),
+            decayPerSecond: (PhysicsEngine.isCell(entity) ? this.getMassDecayPerSecond(entity.mass) : 0).toFixed(2),
             position: {
                 x: entity.position.x.toFixed(1),
                 y: entity.position.y.toFixed(1)
@@ -0,0 +1,201 @@
+// Sistema de power-ups para Agario Roles
+// Objetos raros del mapa que cualquier célula recoge al tocarlos, sin importar su tamaño.
+// Cada uno aplica un efecto temporal al dueño de la célula; los huecos reaparecen tras un tiempo
+import type { Entity, Vector2D } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { SplitMergeSystem } from './SplitMergeSystem';
+import type { StatusEffectSystem, StatusEffectType } from './StatusEffectSystem';
+import type { SeededRandom } from './Random';
+import type { Clock } from './Clock';
+
+export type PowerUpType = 'speed' | 'merge' | 'magnet' | 'split-reset';
+
+export interface PowerUpDefinition {
+    type: PowerUpType;
+    name: string;
+    color: string;
+    icon: string; // Símbolo que se dibuja dentro del power-up
+    effect?: StatusEffectType; // Efecto temporal que recibe el dueño
+    duration: number; // ms del efecto (0: instantáneo)
+    resetsSplitCooldown?: boolean;
+}
+
+export const POWER_UP_DEFINITIONS: Record<PowerUpType, PowerUpDefinition> = {
+    speed: { type: 'speed', name: 'Velocidad', color: '#feca57', icon: '»', effect: 'haste', duration: 5000 },
+    // Las células del jugador pueden fusionarse ya, sin esperar a mergeTime
+    merge: { type: 'merge', name: 'Fusión', color: '#ff6b9d', icon: '∞', effect: 'merge', duration: 5000 },
+    magnet: { type: 'magnet', name: 'Imán', color: '#a29bfe', icon: 'U', effect: 'magnet', duration: 8000 },
+    'split-reset': { type: 'split-reset', name: 'Recarga', color: '#1dd1a1', icon: '↻', duration: 0, resetsSplitCooldown: true }
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UP_DEFINITIONS) as PowerUpType[];
+
+export interface PowerUpConfig {
+    maxPowerUps: number; // Límite global de power-ups en el mundo
+    respawnDelay: number; // ms hasta que un hueco recogido vuelve a generar un power-up
+    spawnPoints: Vector2D[]; // Posiciones fijas de aparición (vacío: posiciones aleatorias)
+    weights: Record<PowerUpType, number>; // Probabilidad relativa de cada tipo
+    radius: number; // Radio de recogida
+    spawnMargin: number; // Distancia mínima a cualquier célula al aparecer
+}
+
+// Un hueco del límite global: tiene un power-up o espera para reaparecer
+interface PowerUpSlot {
+    entityId?: string;
+    respawnAt: number;
+}
+
+export class PowerUpSystem {
+    private physicsEngine: PhysicsEngine;
+    private splitMergeSystem: SplitMergeSystem;
+    private statusEffectSystem: StatusEffectSystem;
+    private random: SeededRandom;
+    private clock: Clock;
+    private config: PowerUpConfig;
+    private worldWidth: number;
+    private worldHeight: number;
+    private slots: PowerUpSlot[];
+
+    constructor(
+        physicsEngine: PhysicsEngine,
+        splitMergeSystem: SplitMergeSystem,
+        statusEffectSystem: StatusEffectSystem,
+        random: SeededRandom,
+        clock: Clock,
+        worldSize: { width: number; height: number },
+        config: Partial<PowerUpConfig> = {}
+    ) {
+        this.physicsEngine = physicsEngine;
+        this.splitMergeSystem = splitMergeSystem;
+        this.statusEffectSystem = statusEffectSystem;
+        this.random = random;
+        this.clock = clock;
+        this.worldWidth = worldSize.width;
+        this.worldHeight = worldSize.height;
+        this.config = {
+            maxPowerUps: 4,
+            respawnDelay: 15000,
+            spawnPoints: [],
+            weights: { speed: 3, merge: 1, magnet: 2, 'split-reset': 2 },
+            radius: 12,
+            spawnMargin: 80,
+            ...config
+        };
+
+        // Los primeros power-ups aparecen en cuanto haya sitio
+        this.slots = Array.from({ length: this.config.maxPowerUps }, () => ({ respawnAt: 0 }));
+    }
+
+    // Rellenar los huecos cuyo temporizador terminó (llamar en game loop)
+    update(): void {
+        const now = this.clock.now();
+
+        for (const slot of this.slots) {
+            // El power-up pudo desaparecer por otra vía (p. ej. al reiniciar el mundo)
+            if (slot.entityId !== undefined && !this.physicsEngine.getEntity(slot.entityId)) {
+                slot.entityId = undefined;
+                slot.respawnAt = now + this.config.respawnDelay;
+            }
+            if (slot.entityId !== undefined || now < slot.respawnAt) continue;
+
+            // Reintentar en el próximo tick si no hay posición válida
+            const position = this.pickSpawnPosition();
+            if (!position) continue;
+
+            slot.entityId = this.spawnPowerUp(position, this.pickType()).id;
+        }
+    }
+
+    // Una célula tocó un power-up: desaparece sin dar masa y su efecto va al dueño
+    handlePickup(cell: Entity, powerUp: Entity): void {
+        const definition = this.getDefinition(powerUp);
+        this.physicsEngine.removeEntity(powerUp.id);
+
+        const slot = this.slots.find(s => s.entityId === powerUp.id);
+        if (slot) {
+            slot.entityId = undefined;
+            slot.respawnAt = this.clock.now() + this.config.respawnDelay;
+        }
+
+        if (!definition) return;
+
+        const ownerId = cell.ownerId ?? cell.id;
+        if (definition.effect) {
+            this.statusEffectSystem.applyToOwner(ownerId, definition.effect, { duration: definition.duration });
+        }
+        if (definition.resetsSplitCooldown) {
+            this.splitMergeSystem.resetSplitCooldown(ownerId);
+        }
+
+        console.log(`⭐ ${ownerId} recogió ${definition.name}`);
+    }
+
+    getDefinition(powerUp: Entity): PowerUpDefinition | undefined {
+        return powerUp.powerUp !== undefined && Object.prototype.hasOwnProperty.call(POWER_UP_DEFINITIONS, powerUp.powerUp)
+            ? POWER_UP_DEFINITIONS[powerUp.powerUp as PowerUpType]
+            : undefined;
+    }
+
+    // Crear un power-up concreto (también para testing)
+    spawnPowerUp(position: Vector2D, type: PowerUpType): Entity {
+        const entity = this.physicsEngine.createEntity(
+            this.physicsEngine.generateId('powerup'),
+            'powerup',
+            Math.PI * this.config.radius * this.config.radius, // Masa que da el radio de recogida
+            position
+        );
+        entity.powerUp = type;
+        return entity;
+    }
+
+    private pickType(): PowerUpType {
+        const total = POWER_UP_TYPES.reduce((sum, type) => sum + Math.max(0, this.config.weights[type] ?? 0), 0);
+        let roll = this.random.range(0, total);
+
+        for (const type of POWER_UP_TYPES) {
+            roll -= Math.max(0, this.config.weights[type] ?? 0);
+            if (roll < 0) return type;
+        }
+        return POWER_UP_TYPES[0];
+    }
+
+    private pickSpawnPosition(): Vector2D | undefined {
+        const { radius, spawnPoints } = this.config;
+
+        if (spawnPoints.length > 0) {
+            // Puntos fijos libres: sin otro power-up encima ni células cerca
+            const free = spawnPoints.filter(point =>
+                !this.isOccupied(point) && !this.physicsEngine.isNearCell(point, radius + this.config.spawnMargin)
+            );
+            return free.length > 0 ? { ...free[this.random.int(0, free.length - 1)] } : undefined;
+        }
+
+        const position = {
+            x: this.random.range(0, this.worldWidth),
+            y: this.random.range(0, this.worldHeight)
+        };
+        const margin = radius + this.config.spawnMargin;
+        if (!this.physicsEngine.isInsideWorld(position, radius) || this.physicsEngine.isNearCell(position, margin)) {
+            return undefined;
+        }
+        return position;
+    }
+
+    private isOccupied(point: Vector2D): boolean {
+        return this.slots.some(slot => {
+            const entity = slot.entityId !== undefined ? this.physicsEngine.getEntity(slot.entityId) : undefined;
+            if (entity === undefined) return false;
+
+            const offset = this.physicsEngine.getDelta(point, entity.position);
+            return Math.abs(offset.x) < entity.radius && Math.abs(offset.y) < entity.radius;
+        });
+    }
+
+    getPowerUps(): Entity[] {
+        return this.physicsEngine.getEntitiesByType('powerup');
+    }
+
+    getConfig(): PowerUpConfig {
+        return { ...this.config, spawnPoints: this.config.spawnPoints.map(point => ({ ...point })) };
+    }
+}
@@ -0,0 +1,43 @@
+// Generador pseudoaleatorio con semilla para Agario Roles
+// Misma semilla + mismos inputs → misma partida (replays, tests de regresión, reconciliación)
+
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // Número en [0, 1) — algoritmo mulberry32
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // Número real en [min, max)
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    // Entero en [min, max]
+    int(min: number, max: number): number {
+        return Math.floor(this.range(min, max + 1));
+    }
+
+    // Estado interno (para snapshots y restauración)
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+
+    // Semilla no determinista para cuando la configuración no fija una
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 4294967296);
+    }
+}
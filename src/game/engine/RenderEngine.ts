@@ -1,18 +1,71 @@
 // Motor de renderizado para Agario Roles
-import type { Entity, Vector2D } from './PhysicsEngine';
+import type { CollisionStats, Entity, Vector2D, WorldTopology } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import { getRoleDefinition } from './Roles';
+import { SplitMergeSystem } from './SplitMergeSystem';
+import { STATUS_EFFECT_DEFINITIONS, type ActiveStatusEffect, type StatusEffectType } from './StatusEffectSystem';
+import { POWER_UP_DEFINITIONS, type PowerUpType } from './PowerUpSystem';
+import { TEAM_DEFINITIONS, getTeamDefinition, type TeamScore } from './TeamSystem';
+import type { SafeZoneState } from './BattleRoyaleSystem';
+import type { AbilityCastState } from './AbilitySystem';
+import type { MatchSummary } from './MatchSystem';
+import type { LeaderboardEntry } from './GameSimulation';
+import { LeaderboardHUD } from '../ui/LeaderboardHUD';
+import { Minimap, type MinimapConfig } from '../ui/Minimap';
+import type { ScreenRect } from '../ui/MobileUI';
 
 export interface Camera {
     position: Vector2D;
     zoom: number;
 }
 
+export interface CameraConfig {
+    minZoom: number;
+    maxZoom: number;
+    referenceMass: number; // Masa total con zoom 1; por encima la cámara se aleja
+    massZoomExponent: number; // Cuánto se aleja al crecer la masa
+    spreadFit: number; // Fracción de media pantalla que pueden ocupar las células separadas
+    zoomSmoothing: number; // ms (constante de tiempo del suavizado)
+    spectatorZoom: number; // Zoom de la cámara libre del espectador
+    minUserZoom: number; // Límites del zoom manual (multiplica al automático)
+    maxUserZoom: number;
+}
+
+// Datos de la pantalla de muerte del jugador local
+export interface DeathScreenInfo {
+    killer: string; // Nombre a mostrar de quien lo eliminó
+    timeAlive: number; // ms de esta vida
+    peakMass: number;
+    kills: number;
+    canRespawn: boolean;
+    respawnKey: string;
+    spectating: string | null; // Jugador al que sigue la cámara (null: cámara libre)
+    spectateKeys: { previous: string; next: string; free: string };
+}
+
 export class RenderEngine {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private camera: Camera;
     private debugMode: boolean = false;
+    private leaderboardHUD: LeaderboardHUD = new LeaderboardHUD();
+    private minimap: Minimap;
+    private cameraConfig: CameraConfig;
+    private userZoom: number = 1; // Zoom manual del jugador
+    private worldWrap: { width: number; height: number } | null = null; // Mundo toroidal: se dibujan las copias visibles
 
-    constructor(canvas: HTMLCanvasElement) {
+    // Color de cada efecto en el HUD de buffs
+    private static readonly EFFECT_COLORS: Record<StatusEffectType, string> = {
+        slow: '#48dbfb',
+        haste: '#feca57',
+        shield: '#74b9ff',
+        stealth: '#c8c8c8',
+        root: '#a1887f',
+        magnet: '#a29bfe',
+        merge: '#ff6b9d'
+    };
+
+    constructor(canvas: HTMLCanvasElement, minimapConfig: Partial<MinimapConfig> = {}, cameraConfig: Partial<CameraConfig> = {}) {
         this.canvas = canvas;
         const context = canvas.getContext('2d');
         if (!context) {
@@ -24,6 +77,19 @@ export class RenderEngine {
             position: { x: 0, y: 0 },
             zoom: 1
         };
+        this.minimap = new Minimap(minimapConfig);
+        this.cameraConfig = {
+            minZoom: 0.25,
+            maxZoom: 2,
+            referenceMass: 100,
+            massZoomExponent: 0.2,
+            spreadFit: 0.6,
+            zoomSmoothing: 250,
+            spectatorZoom: 0.5,
+            minUserZoom: 0.5,
+            maxUserZoom: 2,
+            ...cameraConfig
+        };
 
         this.setupCanvas();
     }
@@ -41,13 +107,109 @@ export class RenderEngine {
         this.canvas.style.height = rect.height + 'px';
     }
 
-    // Configurar cámara para seguir al jugador
-    updateCamera(playerPosition: Vector2D): void {
-        const centerX = this.canvas.width / (2 * window.devicePixelRatio);
-        const centerY = this.canvas.height / (2 * window.devicePixelRatio);
+    // Tamaño del mundo toroidal (null si el mundo tiene bordes)
+    // En wrap la cámara no se envuelve: sigue a la copia de las células más cercana y se dibujan las copias visibles
+    setWorldWrap(worldWrap: { width: number; height: number } | null): void {
+        this.worldWrap = worldWrap ? { ...worldWrap } : null;
+    }
+
+    // Copia de position más cercana a reference (la misma posición si el mundo no es toroidal)
+    private nearestImage(position: Vector2D, reference: Vector2D): Vector2D {
+        if (!this.worldWrap) return position;
+        return {
+            x: reference.x + PhysicsEngine.wrapOffset(position.x - reference.x, this.worldWrap.width),
+            y: reference.y + PhysicsEngine.wrapOffset(position.y - reference.y, this.worldWrap.height)
+        };
+    }
+
+    // Copias de un círculo que tocan la pantalla (en wrap puede haber varias si la cámara se aleja mucho)
+    private getVisibleImages(position: Vector2D, radius: number): Vector2D[] {
+        if (!this.worldWrap) return [position];
+        
+        const { width, height } = this.getCanvasSize();
+        const { position: view, zoom } = this.camera;
+        const { width: worldWidth, height: worldHeight } = this.worldWrap;
+        const images: Vector2D[] = [];
+        
+        const firstX = Math.ceil((view.x - radius - position.x) / worldWidth);
+        const lastX = Math.floor((view.x + width / zoom + radius - position.x) / worldWidth);
+        const firstY = Math.ceil((view.y - radius - position.y) / worldHeight);
+        const lastY = Math.floor((view.y + height / zoom + radius - position.y) / worldHeight);
+        for (let i = firstX; i <= lastX; i++) {
+            for (let j = firstY; j <= lastY; j++) {
+                images.push({ x: position.x + i * worldWidth, y: position.y + j * worldHeight });
+            }
+        }
+        return images;
+    }
+
+    // Seguir al centroide ponderado por masa de las células del jugador, con zoom según su masa total
+    // y su dispersión (suavizado). deltaTime: ms desde el último frame
+    updateCamera(cells: Entity[], deltaTime: number): void {
+        if (cells.length === 0) return;
+        
+        // En wrap, desenvolver las células junto a la cámara para que no salte al cruzar el borde
+        if (this.worldWrap) {
+            const anchor = this.nearestImage(cells[0].position, this.getCameraCenter());
+            cells = cells.map(cell => ({ ...cell, position: this.nearestImage(cell.position, anchor) }));
+        }
+        
+        const center = SplitMergeSystem.getCenterOfMass(cells);
+        const totalMass = cells.reduce((total, cell) => total + cell.mass, 0);
+        
+        // Distancia desde el centroide hasta el borde de la célula más alejada
+        let spread = 0;
+        for (const cell of cells) {
+            const distance = Math.hypot(cell.position.x - center.x, cell.position.y - center.y) + cell.radius;
+            spread = Math.max(spread, distance);
+        }
+        
+        const { width, height } = this.getCanvasSize();
+        const { referenceMass, massZoomExponent, spreadFit } = this.cameraConfig;
+        const massZoom = Math.pow(referenceMass / Math.max(totalMass, referenceMass), massZoomExponent);
+        const spreadZoom = spread > 0 ? (Math.min(width, height) / 2) * spreadFit / spread : Infinity;
+        this.moveCamera(center, Math.min(massZoom, spreadZoom) * this.userZoom, deltaTime);
+    }
+
+    // Cámara libre (espectador): centrada en center con el zoom de espectador
+    updateFreeCamera(center: Vector2D, deltaTime: number): void {
+        this.moveCamera(center, this.cameraConfig.spectatorZoom * this.userZoom, deltaTime);
+    }
+
+    private moveCamera(center: Vector2D, targetZoom: number, deltaTime: number): void {
+        const { width, height } = this.getCanvasSize();
         
-        this.camera.position.x = playerPosition.x - centerX;
-        this.camera.position.y = playerPosition.y - centerY;
+        // Acercarse al zoom objetivo de forma exponencial (independiente de los FPS)
+        const blend = 1 - Math.exp(-deltaTime / this.cameraConfig.zoomSmoothing);
+        const zoom = this.clampZoom(targetZoom);
+        this.camera.zoom = this.clampZoom(this.camera.zoom + (zoom - this.camera.zoom) * blend);
+        
+        // camera.position es la esquina superior izquierda visible, en coordenadas del mundo
+        this.camera.position.x = center.x - width / (2 * this.camera.zoom);
+        this.camera.position.y = center.y - height / (2 * this.camera.zoom);
+    }
+
+    // Punto del mundo en el centro de la pantalla
+    getCameraCenter(): Vector2D {
+        const { width, height } = this.getCanvasSize();
+        return {
+            x: this.camera.position.x + width / (2 * this.camera.zoom),
+            y: this.camera.position.y + height / (2 * this.camera.zoom)
+        };
+    }
+
+    private clampZoom(zoom: number): number {
+        return Math.max(this.cameraConfig.minZoom, Math.min(this.cameraConfig.maxZoom, zoom));
+    }
+
+    // Zoom manual (rueda del ratón o pellizco): factor > 1 acerca, < 1 aleja
+    adjustZoom(factor: number): void {
+        const { minUserZoom, maxUserZoom } = this.cameraConfig;
+        this.userZoom = Math.max(minUserZoom, Math.min(maxUserZoom, this.userZoom * factor));
+    }
+
+    getCamera(): Camera {
+        return { position: { ...this.camera.position }, zoom: this.camera.zoom };
     }
 
     // Convertir coordenadas del mundo a coordenadas de pantalla
@@ -58,6 +220,14 @@ export class RenderEngine {
         };
     }
 
+    // Convertir coordenadas de pantalla (px CSS) a coordenadas del mundo
+    screenToWorld(screenPos: Vector2D): Vector2D {
+        return {
+            x: screenPos.x / this.camera.zoom + this.camera.position.x,
+            y: screenPos.y / this.camera.zoom + this.camera.position.y
+        };
+    }
+
     // Limpiar canvas
     clear(): void {
         this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
@@ -74,30 +244,156 @@ export class RenderEngine {
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     }
 
-    // Renderizar grid de fondo
+    // Renderizar grid de fondo (alineado con el origen del mundo y escalado con el zoom)
     renderGrid(gridSize: number = 50): void {
-        const screenPos = this.worldToScreen({ x: 0, y: 0 });
-        const offsetX = screenPos.x % (gridSize * this.camera.zoom);
-        const offsetY = screenPos.y % (gridSize * this.camera.zoom);
+        const { width, height } = this.getCanvasSize();
+        const step = gridSize * this.camera.zoom;
+        const origin = this.worldToScreen({ x: 0, y: 0 });
+        const offsetX = ((origin.x % step) + step) % step;
+        const offsetY = ((origin.y % step) + step) % step;
         
         this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
         this.ctx.lineWidth = 1;
+        this.ctx.beginPath();
         
         // Líneas verticales
-        for (let x = offsetX; x < this.canvas.width; x += gridSize * this.camera.zoom) {
-            this.ctx.beginPath();
+        for (let x = offsetX; x < width; x += step) {
             this.ctx.moveTo(x, 0);
-            this.ctx.lineTo(x, this.canvas.height);
-            this.ctx.stroke();
+            this.ctx.lineTo(x, height);
         }
         
         // Líneas horizontales
-        for (let y = offsetY; y < this.canvas.height; y += gridSize * this.camera.zoom) {
-            this.ctx.beginPath();
+        for (let y = offsetY; y < height; y += step) {
             this.ctx.moveTo(0, y);
-            this.ctx.lineTo(this.canvas.width, y);
+            this.ctx.lineTo(width, y);
+        }
+        
+        this.ctx.stroke();
+    }
+
+    // Renderizar el borde del mundo según su topología
+    renderWorldBorder(worldWidth: number, worldHeight: number, topology: WorldTopology): void {
+        this.ctx.save();
+        
+        switch (topology) {
+            case 'walls': {
+                // Pared sólida
+                const topLeft = this.worldToScreen({ x: 0, y: 0 });
+                this.ctx.strokeStyle = 'rgba(255, 99, 71, 0.8)';
+                this.ctx.lineWidth = 4;
+                this.ctx.strokeRect(topLeft.x, topLeft.y, worldWidth * this.camera.zoom, worldHeight * this.camera.zoom);
+                break;
+            }
+            case 'wrap': {
+                // Borde discontinuo: se puede cruzar. Se repite en cada copia visible del mundo
+                const { width, height } = this.getCanvasSize();
+                const { position: view, zoom } = this.camera;
+                this.ctx.strokeStyle = 'rgba(0, 210, 211, 0.6)';
+                this.ctx.lineWidth = 2;
+                this.ctx.setLineDash([12, 10]);
+                for (let i = Math.floor(view.x / worldWidth); i <= Math.floor((view.x + width / zoom) / worldWidth); i++) {
+                    for (let j = Math.floor(view.y / worldHeight); j <= Math.floor((view.y + height / zoom) / worldHeight); j++) {
+                        const topLeft = this.worldToScreen({ x: i * worldWidth, y: j * worldHeight });
+                        this.ctx.strokeRect(topLeft.x, topLeft.y, worldWidth * zoom, worldHeight * zoom);
+                    }
+                }
+                break;
+            }
+            case 'circle': {
+                const center = this.worldToScreen({ x: worldWidth / 2, y: worldHeight / 2 });
+                const radius = Math.min(worldWidth, worldHeight) / 2 * this.camera.zoom;
+                this.ctx.strokeStyle = 'rgba(255, 99, 71, 0.8)';
+                this.ctx.lineWidth = 4;
+                this.ctx.beginPath();
+                this.ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+                this.ctx.stroke();
+                break;
+            }
+        }
+        
+        this.ctx.restore();
+    }
+
+    // Zona segura del battle royale: oscurecer el exterior y marcar el borde actual y el siguiente
+    renderSafeZone(zone: SafeZoneState): void {
+        const center = this.worldToScreen(zone.center);
+        const radius = zone.radius * this.camera.zoom;
+        const { width, height } = this.getCanvasSize();
+        
+        this.ctx.save();
+        
+        this.ctx.fillStyle = 'rgba(180, 30, 60, 0.25)';
+        this.ctx.beginPath();
+        this.ctx.rect(0, 0, width, height);
+        this.ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+        this.ctx.fill('evenodd');
+        
+        this.ctx.strokeStyle = 'rgba(255, 71, 87, 0.9)';
+        this.ctx.lineWidth = 3;
+        this.ctx.beginPath();
+        this.ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+        this.ctx.stroke();
+        
+        if (zone.targetRadius < zone.radius) {
+            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+            this.ctx.lineWidth = 2;
+            this.ctx.setLineDash([12, 8]);
+            this.ctx.beginPath();
+            this.ctx.arc(center.x, center.y, zone.targetRadius * this.camera.zoom, 0, Math.PI * 2);
             this.ctx.stroke();
         }
+        
+        this.ctx.restore();
+    }
+
+    // Aviso de las habilidades en casteo según su targeting:
+    // área (radio de alcance), dirección (línea de apuntado) o sobre sí mismo (anillo de progreso)
+    renderAbilityCasts(casts: AbilityCastState[], entities: Entity[]): void {
+        if (casts.length === 0) return;
+        
+        this.ctx.save();
+        this.ctx.strokeStyle = 'rgba(254, 202, 87, 0.8)';
+        this.ctx.fillStyle = 'rgba(254, 202, 87, 0.12)';
+        this.ctx.lineWidth = 2;
+        
+        for (const cast of casts) {
+            // Solo las células visibles: el aviso no delata a un jugador en sigilo
+            const cells = entities.filter(entity => entity.ownerId === cast.playerId && PhysicsEngine.isCell(entity));
+            
+            for (const image of cells.flatMap(cell => this.getVisibleImages(cell.position, cell.radius + cast.range).map(position => ({ cell, position })))) {
+                const { cell } = image;
+                const screenPos = this.worldToScreen(image.position);
+                const screenRadius = cell.radius * this.camera.zoom;
+                const reach = (cell.radius + cast.range) * this.camera.zoom;
+                
+                switch (cast.targeting) {
+                    case 'area':
+                        this.ctx.setLineDash([10, 6]);
+                        this.ctx.beginPath();
+                        this.ctx.arc(screenPos.x, screenPos.y, reach, 0, Math.PI * 2);
+                        this.ctx.stroke();
+                        this.ctx.beginPath();
+                        this.ctx.arc(screenPos.x, screenPos.y, screenRadius + (reach - screenRadius) * cast.progress, 0, Math.PI * 2);
+                        this.ctx.fill();
+                        break;
+                    case 'direction':
+                        this.ctx.setLineDash([10, 6]);
+                        this.ctx.beginPath();
+                        this.ctx.moveTo(screenPos.x + cast.direction.x * screenRadius, screenPos.y + cast.direction.y * screenRadius);
+                        this.ctx.lineTo(screenPos.x + cast.direction.x * reach, screenPos.y + cast.direction.y * reach);
+                        this.ctx.stroke();
+                        break;
+                    case 'self':
+                        this.ctx.setLineDash([]);
+                        this.ctx.beginPath();
+                        this.ctx.arc(screenPos.x, screenPos.y, screenRadius + 6, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * cast.progress);
+                        this.ctx.stroke();
+                        break;
+                }
+            }
+        }
+        
+        this.ctx.restore();
     }
 
     // Renderizar spatial hash grid (para debug)
@@ -110,11 +406,11 @@ export class RenderEngine {
         const canvasSize = this.getCanvasSize();
         const worldMinX = this.camera.position.x;
         const worldMinY = this.camera.position.y;
-        const worldMaxX = worldMinX + canvasSize.width;
-        const worldMaxY = worldMinY + canvasSize.height;
+        const worldWidth = canvasSize.width / this.camera.zoom;
+        const worldHeight = canvasSize.height / this.camera.zoom;
         
         // Obtener celdas visibles
-        const visibleCells = spatialGrid.getVisibleCells(worldMinX, worldMinY, canvasSize.width, canvasSize.height);
+        const visibleCells = spatialGrid.getVisibleCells(worldMinX, worldMinY, worldWidth, worldHeight);
         
         // Renderizar celdas activas
         for (const cell of visibleCells) {
@@ -155,18 +451,24 @@ export class RenderEngine {
     }
 
     // Renderizar entidad individual
-    renderEntity(entity: Entity): void {
+    renderEntity(entity: Entity, statusEffects: StatusEffectType[] = []): void {
         const screenPos = this.worldToScreen(entity.position);
         const screenRadius = entity.radius * this.camera.zoom;
         
         // No renderizar si está fuera de la pantalla
-        if (screenPos.x + screenRadius < 0 || screenPos.x - screenRadius > this.canvas.width ||
-            screenPos.y + screenRadius < 0 || screenPos.y - screenRadius > this.canvas.height) {
+        const { width, height } = this.getCanvasSize();
+        if (screenPos.x + screenRadius < 0 || screenPos.x - screenRadius > width ||
+            screenPos.y + screenRadius < 0 || screenPos.y - screenRadius > height) {
             return;
         }
 
         this.ctx.save();
         
+        // Las células propias en sigilo se ven semitransparentes
+        if (statusEffects.includes('stealth')) {
+            this.ctx.globalAlpha = 0.35;
+        }
+        
         // Colores por tipo de entidad
         switch (entity.type) {
             case 'player':
@@ -178,19 +480,88 @@ export class RenderEngine {
             case 'pellet':
                 this.renderPellet(entity, screenPos, screenRadius);
                 break;
+            case 'ejected':
+                this.renderEjected(entity, screenPos, screenRadius);
+                break;
+            case 'virus':
+                this.renderVirus(entity, screenPos, screenRadius);
+                break;
+            case 'powerup':
+                this.renderPowerUp(entity, screenPos, screenRadius);
+                break;
+        }
+        
+        if (statusEffects.length > 0) {
+            this.renderStatusAuras(statusEffects, screenPos, screenRadius);
         }
         
         this.ctx.restore();
     }
 
+    // Auras de los efectos de estado alrededor de la célula
+    private renderStatusAuras(statusEffects: StatusEffectType[], screenPos: Vector2D, screenRadius: number): void {
+        let ringRadius = screenRadius + 4;
+        
+        for (const effect of statusEffects) {
+            this.ctx.setLineDash([]);
+            switch (effect) {
+                case 'shield':
+                    // Burbuja protectora
+                    this.ctx.fillStyle = 'rgba(116, 185, 255, 0.2)';
+                    this.ctx.beginPath();
+                    this.ctx.arc(screenPos.x, screenPos.y, ringRadius, 0, Math.PI * 2);
+                    this.ctx.fill();
+                    this.ctx.strokeStyle = 'rgba(116, 185, 255, 0.9)';
+                    this.ctx.lineWidth = 3;
+                    break;
+                case 'haste':
+                    this.ctx.strokeStyle = 'rgba(254, 202, 87, 0.9)';
+                    this.ctx.lineWidth = 2;
+                    this.ctx.setLineDash([10, 6]);
+                    break;
+                case 'slow':
+                    this.ctx.strokeStyle = 'rgba(72, 219, 251, 0.8)';
+                    this.ctx.lineWidth = 2;
+                    this.ctx.setLineDash([3, 5]);
+                    break;
+                case 'root':
+                    this.ctx.strokeStyle = 'rgba(161, 136, 127, 0.95)';
+                    this.ctx.lineWidth = 4;
+                    this.ctx.setLineDash([2, 8]);
+                    break;
+                case 'stealth':
+                    this.ctx.strokeStyle = 'rgba(200, 200, 200, 0.5)';
+                    this.ctx.lineWidth = 1;
+                    break;
+                case 'magnet':
+                    this.ctx.strokeStyle = 'rgba(162, 155, 254, 0.8)';
+                    this.ctx.lineWidth = 2;
+                    this.ctx.setLineDash([6, 4]);
+                    break;
+                case 'merge':
+                    this.ctx.strokeStyle = 'rgba(255, 107, 157, 0.85)';
+                    this.ctx.lineWidth = 2;
+                    break;
+            }
+            
+            this.ctx.beginPath();
+            this.ctx.arc(screenPos.x, screenPos.y, ringRadius, 0, Math.PI * 2);
+            this.ctx.stroke();
+            ringRadius += 5;
+        }
+        
+        this.ctx.setLineDash([]);
+    }
+
     private renderPlayer(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
-        // Círculo del jugador con gradiente
+        // Círculo del jugador con gradiente (el de su equipo en modo equipos)
+        const [inner, outer] = getTeamDefinition(entity)?.colors ?? ['#4facfe', '#00f2fe'];
         const gradient = this.ctx.createRadialGradient(
             screenPos.x, screenPos.y, 0,
             screenPos.x, screenPos.y, screenRadius
         );
-        gradient.addColorStop(0, '#4facfe');
-        gradient.addColorStop(1, '#00f2fe');
+        gradient.addColorStop(0, inner);
+        gradient.addColorStop(1, outer);
         
         this.ctx.fillStyle = gradient;
         this.ctx.beginPath();
@@ -202,6 +573,8 @@ export class RenderEngine {
         this.ctx.lineWidth = 2;
         this.ctx.stroke();
         
+        this.renderRoleLabel(entity, screenPos, screenRadius);
+        
         // Mostrar masa si está en debug mode
         if (this.debugMode) {
             this.ctx.fillStyle = '#ffffff';
@@ -216,13 +589,14 @@ export class RenderEngine {
     }
 
     private renderBot(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
-        // Círculo del bot con color rojizo
+        // Círculo del bot con color rojizo (el de su equipo en modo equipos)
+        const [inner, outer] = getTeamDefinition(entity)?.colors ?? ['#ff6b6b', '#ee5a52'];
         const gradient = this.ctx.createRadialGradient(
             screenPos.x, screenPos.y, 0,
             screenPos.x, screenPos.y, screenRadius
         );
-        gradient.addColorStop(0, '#ff6b6b');
-        gradient.addColorStop(1, '#ee5a52');
+        gradient.addColorStop(0, inner);
+        gradient.addColorStop(1, outer);
         
         this.ctx.fillStyle = gradient;
         this.ctx.beginPath();
@@ -233,6 +607,21 @@ export class RenderEngine {
         this.ctx.strokeStyle = '#ffffff';
         this.ctx.lineWidth = 1;
         this.ctx.stroke();
+        
+        this.renderRoleLabel(entity, screenPos, screenRadius);
+    }
+
+    // Etiqueta del rol en el centro de la célula (solo si cabe)
+    private renderRoleLabel(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
+        if (screenRadius < 12) return;
+        
+        const fontSize = Math.min(24, Math.max(9, screenRadius * 0.45));
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+        this.ctx.font = `bold ${fontSize.toFixed(0)}px Arial`;
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(getRoleDefinition(entity).label, screenPos.x, screenPos.y);
+        this.ctx.textBaseline = 'alphabetic';
     }
 
     private renderPellet(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
@@ -246,93 +635,454 @@ export class RenderEngine {
         this.ctx.fill();
     }
 
+    private renderEjected(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
+        // Masa expulsada: círculo sólido con borde para distinguirla de los pellets
+        this.ctx.fillStyle = '#7bed9f';
+        this.ctx.beginPath();
+        this.ctx.arc(screenPos.x, screenPos.y, Math.max(screenRadius, 3), 0, Math.PI * 2);
+        this.ctx.fill();
+        
+        this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        this.ctx.lineWidth = 1;
+        this.ctx.stroke();
+    }
+
+    private renderVirus(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
+        // Virus: polígono con púas, semitransparente para que se vea lo que se esconde debajo
+        const spikes = 18;
+        const innerRadius = screenRadius * 0.88;
+        
+        this.ctx.beginPath();
+        for (let i = 0; i < spikes * 2; i++) {
+            const angle = (i / (spikes * 2)) * Math.PI * 2;
+            const r = i % 2 === 0 ? screenRadius : innerRadius;
+            const x = screenPos.x + Math.cos(angle) * r;
+            const y = screenPos.y + Math.sin(angle) * r;
+            if (i === 0) {
+                this.ctx.moveTo(x, y);
+            } else {
+                this.ctx.lineTo(x, y);
+            }
+        }
+        this.ctx.closePath();
+        
+        this.ctx.fillStyle = 'rgba(51, 255, 51, 0.55)';
+        this.ctx.fill();
+        this.ctx.strokeStyle = '#22bb22';
+        this.ctx.lineWidth = 2;
+        this.ctx.stroke();
+        
+        if (this.debugMode) {
+            this.ctx.fillStyle = '#ffffff';
+            this.ctx.font = '12px Arial';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText(
+                `m:${entity.mass.toFixed(0)}`,
+                screenPos.x,
+                screenPos.y - screenRadius - 5
+            );
+        }
+    }
+
+    private renderPowerUp(entity: Entity, screenPos: Vector2D, screenRadius: number): void {
+        // Power-up: moneda brillante con el icono de su tipo (tamaño mínimo para que se vea de lejos)
+        const definition = POWER_UP_DEFINITIONS[entity.powerUp as PowerUpType] ?? POWER_UP_DEFINITIONS.speed;
+        const radius = Math.max(screenRadius, 10);
+        
+        this.ctx.shadowColor = definition.color;
+        this.ctx.shadowBlur = 15;
+        this.ctx.fillStyle = 'rgba(20, 20, 40, 0.85)';
+        this.ctx.beginPath();
+        this.ctx.arc(screenPos.x, screenPos.y, radius, 0, Math.PI * 2);
+        this.ctx.fill();
+        
+        this.ctx.strokeStyle = definition.color;
+        this.ctx.lineWidth = 3;
+        this.ctx.stroke();
+        this.ctx.shadowBlur = 0;
+        
+        this.ctx.fillStyle = definition.color;
+        this.ctx.font = `bold ${Math.round(radius * 1.1)}px Arial`;
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(definition.icon, screenPos.x, screenPos.y);
+        this.ctx.textBaseline = 'alphabetic';
+    }
+
     // Renderizar todas las entidades
-    renderEntities(entities: Entity[]): void {
+    renderEntities(entities: Entity[], getStatusEffects?: (entityId: string) => StatusEffectType[]): void {
         // Ordenar por tamaño (más pequeños primero para que los grandes se vean encima)
         const sortedEntities = entities.sort((a, b) => a.radius - b.radius);
         
         for (const entity of sortedEntities) {
-            this.renderEntity(entity);
+            const statusEffects = getStatusEffects ? getStatusEffects(entity.id) : [];
+            // En wrap, las entidades junto a un borde se ven también desde el lado opuesto
+            for (const position of this.getVisibleImages(entity.position, entity.radius)) {
+                this.renderEntity(position === entity.position ? entity : { ...entity, position }, statusEffects);
+            }
         }
     }
 
-    // Renderizar debug overlay
-    renderDebugOverlay(fps: number, entityCount: number, playerDebugInfo: any, splitInfo?: any, spatialGrid?: any): void {
-        if (!this.debugMode) return;
+    // HUD de buffs activos del jugador local (arriba en el centro), con barra de tiempo restante
+    renderBuffsHUD(effects: ActiveStatusEffect[], now: number): void {
+        if (effects.length === 0) return;
+        
+        const width = 110;
+        const height = 26;
+        const gap = 8;
+        const { width: canvasWidth } = this.getCanvasSize();
+        let x = (canvasWidth - (effects.length * width + (effects.length - 1) * gap)) / 2;
+        const y = 10;
         
         this.ctx.save();
+        this.ctx.font = '12px Arial';
+        this.ctx.textAlign = 'left';
+        this.ctx.textBaseline = 'middle';
         
-        // Fondo semi-transparente para el debug (expandido)
-        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-        this.ctx.fillRect(10, 10, 280, 240);
+        for (const effect of effects) {
+            const remaining = Math.max(0, effect.expiresAt - now);
+            const progress = Math.min(1, remaining / Math.max(1, effect.expiresAt - effect.appliedAt));
+            const color = RenderEngine.EFFECT_COLORS[effect.type];
+            
+            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            this.ctx.fillRect(x, y, width, height);
+            
+            this.ctx.fillStyle = color;
+            this.ctx.fillRect(x, y + height - 3, width * progress, 3);
+            
+            const stacks = effect.stacks > 1 ? ` x${effect.stacks}` : '';
+            this.ctx.fillText(
+                `${STATUS_EFFECT_DEFINITIONS[effect.type].name}${stacks} ${(remaining / 1000).toFixed(1)}s`,
+                x + 8,
+                y + height / 2 - 1
+            );
+            
+            x += width + gap;
+        }
+        
+        this.ctx.restore();
+    }
+
+    // Leaderboard por masa (arriba a la derecha, bajo el selector de rol); en modo equipos incluye los equipos
+    renderLeaderboard(
+        entries: LeaderboardEntry[],
+        localPlayerId: string,
+        teamScores?: TeamScore[],
+        now: number = performance.now()
+    ): void {
+        const { width: canvasWidth } = this.getCanvasSize();
+        this.leaderboardHUD.update(entries, localPlayerId, teamScores, now);
+        this.leaderboardHUD.render(this.ctx, canvasWidth - 10, 50);
+    }
+
+    // Refrescar el leaderboard en el próximo frame sin esperar al intervalo (p. ej. al empezar otra partida)
+    invalidateLeaderboard(): void {
+        this.leaderboardHUD.invalidate();
+    }
+
+    // Minimapa en su esquina; avoid: zonas de pantalla ocupadas por otra UI (controles táctiles)
+    renderMinimap(
+        entities: Entity[],
+        world: { width: number; height: number; topology: WorldTopology },
+        localPlayerId: string,
+        localTeamId?: string,
+        avoid: ScreenRect[] = []
+    ): void {
+        const { width: canvasWidth, height: canvasHeight } = this.getCanvasSize();
+        this.minimap.render(this.ctx, {
+            worldWidth: world.width,
+            worldHeight: world.height,
+            topology: world.topology,
+            viewport: {
+                x: this.camera.position.x,
+                y: this.camera.position.y,
+                width: canvasWidth / this.camera.zoom,
+                height: canvasHeight / this.camera.zoom
+            },
+            entities,
+            localPlayerId,
+            localTeamId
+        }, canvasWidth, canvasHeight, avoid);
+    }
+
+    getMinimap(): Minimap {
+        return this.minimap;
+    }
+
+    // Cuenta atrás de la zona y jugadores vivos (arriba en el centro, bajo los buffs)
+    renderZoneHUD(zone: SafeZoneState, aliveCount: number): void {
+        const seconds = Math.ceil(zone.nextChangeIn / 1000);
+        const status = zone.shrinking
+            ? `⚠ Zona cerrándose: ${seconds}s`
+            : zone.nextChangeIn > 0 ? `Zona se cierra en ${seconds}s` : 'Zona final';
+        const text = `${status} · Vivos: ${aliveCount}`;
+        
+        this.ctx.save();
+        this.ctx.font = 'bold 14px Arial';
+        const width = this.ctx.measureText(text).width + 24;
+        const { width: canvasWidth } = this.getCanvasSize();
+        const x = (canvasWidth - width) / 2;
+        const y = 44;
+        
+        this.ctx.fillStyle = zone.shrinking ? 'rgba(180, 30, 60, 0.75)' : 'rgba(0, 0, 0, 0.6)';
+        this.ctx.fillRect(x, y, width, 26);
         
-        // Texto de debug
         this.ctx.fillStyle = '#ffffff';
-        this.ctx.font = '12px monospace';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(text, canvasWidth / 2, y + 13);
+        this.ctx.restore();
+    }
+
+    // Cuenta atrás antes de empezar la partida (número grande en el centro)
+    renderCountdown(remaining: number): void {
+        const { width, height } = this.getCanvasSize();
+        
+        this.ctx.save();
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+        this.ctx.fillRect(0, 0, width, height);
+        
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.font = 'bold 96px Arial';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(`${Math.ceil(remaining / 1000)}`, width / 2, height / 2);
+        
+        this.ctx.font = '18px Arial';
+        this.ctx.fillText('La partida está a punto de empezar', width / 2, height / 2 + 70);
+        this.ctx.restore();
+    }
+
+    // Tiempo restante de partida (arriba en el centro, en la fila indicada)
+    renderMatchTimer(remaining: number, y: number): void {
+        const totalSeconds = Math.ceil(remaining / 1000);
+        const text = `⏱ ${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+        const { width: canvasWidth } = this.getCanvasSize();
+        
+        this.ctx.save();
+        this.ctx.font = 'bold 14px Arial';
+        const width = this.ctx.measureText(text).width + 24;
+        
+        this.ctx.fillStyle = totalSeconds <= 10 ? 'rgba(180, 30, 60, 0.75)' : 'rgba(0, 0, 0, 0.6)';
+        this.ctx.fillRect((canvasWidth - width) / 2, y, width, 26);
+        
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(text, canvasWidth / 2, y + 13);
+        this.ctx.restore();
+    }
+
+    // Pantalla de resultados al terminar la partida (ranking del resumen)
+    // restartKey: tecla o gesto para jugar otra vez
+    renderMatchResults(summary: MatchSummary, localPlayerId: string, restartKey: string): void {
+        const { width: canvasWidth, height: canvasHeight } = this.getCanvasSize();
+        const rows = summary.players.slice(0, 10);
+        const width = 460;
+        const height = 150 + rows.length * 22;
+        const x = (canvasWidth - width) / 2;
+        const y = (canvasHeight - height) / 2;
+        
+        this.ctx.save();
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+        this.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+        this.ctx.fillStyle = 'rgba(22, 33, 62, 0.95)';
+        this.ctx.fillRect(x, y, width, height);
+        
+        const { winnerTeamId } = summary.metadata;
+        const localPlayer = summary.players.find(player => player.id === localPlayerId);
+        const won = winnerTeamId ? localPlayer?.teamId === winnerTeamId : summary.winnerId === localPlayerId;
+        const winner = winnerTeamId ? `equipo ${TEAM_DEFINITIONS[winnerTeamId].name}` : summary.winnerId ?? 'nadie';
+        
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = won ? '#feca57' : '#ffffff';
+        this.ctx.font = 'bold 24px Arial';
+        this.ctx.fillText(won ? '🏆 ¡Victoria!' : 'Fin de la partida', canvasWidth / 2, y + 36);
+        
+        this.ctx.fillStyle = '#dddddd';
+        this.ctx.font = '14px Arial';
+        this.ctx.fillText(`Gana ${winner} · ${summary.duration}s`, canvasWidth / 2, y + 60);
+        
+        this.ctx.font = '13px monospace';
+        this.ctx.fillStyle = '#aaaaaa';
         this.ctx.textAlign = 'left';
+        this.ctx.fillText('Jugador', x + 20, y + 90);
+        this.ctx.textAlign = 'right';
+        this.ctx.fillText('Puntos   K  Pico  Vivo', x + width - 20, y + 90);
         
-        let y = 30;
-        const lineHeight = 15;
+        rows.forEach((player, index) => {
+            const rowY = y + 114 + index * 22;
+            
+            this.ctx.fillStyle = player.id === localPlayerId ? '#feca57' : '#ffffff';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillText(`#${player.rank} ${player.id}`, x + 20, rowY);
+            this.ctx.textAlign = 'right';
+            this.ctx.fillText(
+                `${String(player.score).padStart(6)} ${String(player.kills).padStart(3)} ${String(player.peakMass).padStart(5)} ${String(player.timeAlive).padStart(4)}s`,
+                x + width - 20,
+                rowY
+            );
+        });
+        
+        // El jugador local fuera del top 10 ve su puesto al final
+        if (localPlayer && localPlayer.rank > rows.length) {
+            this.ctx.fillStyle = '#feca57';
+            this.ctx.textAlign = 'left';
+            this.ctx.fillText(`#${localPlayer.rank} ${localPlayer.id} · ${localPlayer.score} puntos`, x + 20, y + height - 34);
+        }
+        
+        this.ctx.fillStyle = '#aaaaaa';
+        this.ctx.textAlign = 'center';
+        this.ctx.font = '12px Arial';
+        this.ctx.fillText(`Pulsa ${restartKey} para jugar otra vez`, canvasWidth / 2, y + height - 14);
+        this.ctx.restore();
+    }
+
+    // Pantalla de muerte: estadísticas de la vida, reaparición y controles de espectador
+    // (panel en la parte superior para que se vea la partida que se está observando)
+    renderDeathScreen(info: DeathScreenInfo): void {
+        const { width: canvasWidth, height: canvasHeight } = this.getCanvasSize();
+        const width = 360;
+        const height = 176;
+        const x = (canvasWidth - width) / 2;
+        const y = Math.max(110, canvasHeight * 0.2);
+        
+        this.ctx.save();
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+        this.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+        this.ctx.fillStyle = 'rgba(22, 33, 62, 0.9)';
+        this.ctx.fillRect(x, y, width, height);
+        
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = '#ff6b6b';
+        this.ctx.font = 'bold 22px Arial';
+        this.ctx.fillText('💀 Has sido eliminado', canvasWidth / 2, y + 32);
+        
+        this.ctx.fillStyle = '#dddddd';
+        this.ctx.font = '14px Arial';
+        this.ctx.fillText(`por ${info.killer}`, canvasWidth / 2, y + 54);
+        
+        // Estadísticas de esta vida
+        const stats: Array<[string, string]> = [
+            ['Vivo', `${Math.round(info.timeAlive / 1000)}s`],
+            ['Masa máxima', info.peakMass.toFixed(0)],
+            ['Eliminaciones', `${info.kills}`]
+        ];
+        stats.forEach(([label, value], index) => {
+            const columnX = x + (width / stats.length) * (index + 0.5);
+            this.ctx.fillStyle = '#ffffff';
+            this.ctx.font = 'bold 18px Arial';
+            this.ctx.fillText(value, columnX, y + 90);
+            this.ctx.fillStyle = '#aaaaaa';
+            this.ctx.font = '11px Arial';
+            this.ctx.fillText(label, columnX, y + 106);
+        });
         
-        this.ctx.fillText(`FPS: ${fps.toFixed(1)}`, 20, y);
-        y += lineHeight;
+        this.ctx.font = '13px Arial';
+        this.ctx.fillStyle = info.canRespawn ? '#feca57' : '#aaaaaa';
+        this.ctx.fillText(
+            info.canRespawn ? `Pulsa ${info.respawnKey} para reaparecer` : 'No se puede reaparecer en este modo',
+            canvasWidth / 2,
+            y + 134
+        );
         
-        this.ctx.fillText(`Entidades: ${entityCount}`, 20, y);
-        y += lineHeight;
+        const { previous, next, free } = info.spectateKeys;
+        this.ctx.fillStyle = '#aaaaaa';
+        this.ctx.font = '12px Arial';
+        this.ctx.fillText(
+            `${info.spectating ? `Observando a ${info.spectating}` : 'Cámara libre'} · ${previous}/${next}: cambiar · ${free}: libre`,
+            canvasWidth / 2,
+            y + 158
+        );
+        this.ctx.restore();
+    }
+
+    // Renderizar debug overlay
+    renderDebugOverlay(
+        fps: number,
+        entityCount: number,
+        playerDebugInfo: any,
+        splitInfo?: any,
+        spatialGrid?: any,
+        collisionStats?: CollisionStats
+    ): void {
+        if (!this.debugMode) return;
+        
+        // Bloques de líneas; el fondo se ajusta a lo que se va a escribir
+        const sections: string[][] = [[
+            `FPS: ${fps.toFixed(1)}`,
+            `Entidades: ${entityCount}`
+        ]];
         
         if (playerDebugInfo) {
-            this.ctx.fillText(`Masa: ${playerDebugInfo.mass}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Radio: ${playerDebugInfo.radius}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`V_max: ${playerDebugInfo.maxVelocity}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`V_actual: ${playerDebugInfo.currentVelocity}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Pos: (${playerDebugInfo.position.x}, ${playerDebugInfo.position.y})`, 20, y);
-            y += lineHeight;
+            sections[0].push(
+                `Masa: ${playerDebugInfo.mass}`,
+                `Radio: ${playerDebugInfo.radius}`,
+                `V_max: ${playerDebugInfo.maxVelocity}`,
+                `V_actual: ${playerDebugInfo.currentVelocity}`,
+                `Decay: -${playerDebugInfo.decayPerSecond}/s`,
+                `Pos: (${playerDebugInfo.position.x}, ${playerDebugInfo.position.y})`
+            );
         }
         
         // Información de split/merge
         if (splitInfo) {
-            y += 5; // Espacio extra
-            this.ctx.fillText(`--- SPLIT/MERGE ---`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Células: ${splitInfo.splitCount + 1}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Puede split: ${splitInfo.canSplit ? 'SÍ' : 'NO'}`, 20, y);
-            y += lineHeight;
-            
+            const lines = [
+                `--- SPLIT/MERGE ---`,
+                `Células: ${splitInfo.splitCount + 1}`,
+                `Puede split: ${splitInfo.canSplit ? 'SÍ' : 'NO'}`
+            ];
             if (splitInfo.cooldownRemaining > 0) {
-                this.ctx.fillText(`Cooldown: ${(splitInfo.cooldownRemaining / 1000).toFixed(1)}s`, 20, y);
-                y += lineHeight;
+                lines.push(`Cooldown: ${(splitInfo.cooldownRemaining / 1000).toFixed(1)}s`);
             }
+            sections.push(lines);
         }
         
         // Información de Spatial Hash
         if (spatialGrid) {
-            y += 5; // Espacio extra
-            this.ctx.fillText(`--- SPATIAL HASH ---`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Celdas activas: ${spatialGrid.totalCells}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Tamaño celda: ${spatialGrid.cellSize}px`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Ent/celda avg: ${spatialGrid.averageEntitiesPerCell.toFixed(1)}`, 20, y);
-            y += lineHeight;
-            
-            this.ctx.fillText(`Max ent/celda: ${spatialGrid.maxEntitiesInCell}`, 20, y);
+            sections.push([
+                `--- SPATIAL HASH ---`,
+                `Celdas activas: ${spatialGrid.totalCells}`,
+                `Tamaño celda: ${spatialGrid.cellSize}px`,
+                `Ent/celda avg: ${spatialGrid.averageEntitiesPerCell.toFixed(1)}`,
+                `Max ent/celda: ${spatialGrid.maxEntitiesInCell}`
+            ]);
+        }
+        
+        // Información del pase de colisiones
+        if (collisionStats) {
+            sections.push([
+                `--- COLISIONES ---`,
+                `Pares candidatos: ${collisionStats.candidatePairs}`,
+                `Contactos: ${collisionStats.contacts}`
+            ]);
         }
         
+        const lineHeight = 15;
+        const sectionGap = 5; // Espacio extra entre bloques
+        const lineCount = sections.reduce((total, section) => total + section.length, 0);
+        const height = 20 + lineCount * lineHeight + (sections.length - 1) * sectionGap;
+        
+        this.ctx.save();
+        
+        // Fondo semi-transparente para el debug
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        this.ctx.fillRect(10, 10, 280, height);
+        
+        // Texto de debug
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.font = '12px monospace';
+        this.ctx.textAlign = 'left';
+        
+        let y = 30;
+        sections.forEach((section, index) => {
+            if (index > 0) y += sectionGap;
+            for (const line of section) {
+                this.ctx.fillText(line, 20, y);
+                y += lineHeight;
+            }
+        });
+        
         this.ctx.restore();
     }
 
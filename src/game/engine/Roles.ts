@@ -0,0 +1,68 @@
+// Roles de Agario Roles
+// Cada rol define su kit Q/E/R y modificadores pasivos de stats
+import type { AbilityLoadout } from './AbilitySystem';
+import type { Entity, StatModifiers } from './PhysicsEngine';
+
+export type RoleId = 'basic' | 'tank' | 'assassin' | 'support' | 'controller';
+
+export interface RoleDefinition {
+    id: RoleId;
+    name: string;
+    label: string; // Etiqueta corta que se dibuja sobre la célula
+    kit: AbilityLoadout;
+    modifiers: StatModifiers;
+}
+
+export const ROLE_DEFINITIONS: Record<RoleId, RoleDefinition> = {
+    // Rol por defecto (el backend envía 'basic' si la entidad no tiene rol)
+    basic: {
+        id: 'basic',
+        name: 'Básico',
+        label: 'BSC',
+        kit: { Q: 'dash', E: 'magnet', R: 'nova' },
+        modifiers: { speedMultiplier: 1, massSpeedPenalty: 1, eatRatioMultiplier: 1, splitCooldownMultiplier: 1 }
+    },
+    // Lento pero se frena menos al crecer y come con menos ventaja de masa
+    tank: {
+        id: 'tank',
+        name: 'Tanque',
+        label: 'TNK',
+        kit: { Q: 'charge', E: 'bulwark', R: 'quake' },
+        modifiers: { speedMultiplier: 0.72, massSpeedPenalty: 0.8, eatRatioMultiplier: 0.92, splitCooldownMultiplier: 1.5 }
+    },
+    // Rápido y con split frecuente, pero necesita más ventaja para comer
+    assassin: {
+        id: 'assassin',
+        name: 'Asesino',
+        label: 'ASN',
+        kit: { Q: 'blink', E: 'lunge', R: 'shadow' },
+        modifiers: { speedMultiplier: 1.15, massSpeedPenalty: 1.1, eatRatioMultiplier: 1.05, splitCooldownMultiplier: 0.5 }
+    },
+    // Crece rápido recogiendo comida; peor en el cuerpo a cuerpo
+    support: {
+        id: 'support',
+        name: 'Soporte',
+        label: 'SUP',
+        kit: { Q: 'feast', E: 'regroup', R: 'harvest' },
+        modifiers: { speedMultiplier: 1.05, massSpeedPenalty: 1, eatRatioMultiplier: 1.1, splitCooldownMultiplier: 1 }
+    },
+    // Mueve a los demás a su favor
+    controller: {
+        id: 'controller',
+        name: 'Controlador',
+        label: 'CTL',
+        kit: { Q: 'snare', E: 'repel', R: 'vortex' },
+        modifiers: { speedMultiplier: 1, massSpeedPenalty: 1, eatRatioMultiplier: 1, splitCooldownMultiplier: 1.2 }
+    }
+};
+
+export const ROLE_IDS = Object.keys(ROLE_DEFINITIONS) as RoleId[];
+
+export function isRoleId(value: unknown): value is RoleId {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_DEFINITIONS, value);
+}
+
+// Definición del rol de una entidad (las entidades sin rol son 'basic')
+export function getRoleDefinition(entity: Entity): RoleDefinition {
+    return isRoleId(entity.role) ? ROLE_DEFINITIONS[entity.role] : ROLE_DEFINITIONS.basic;
+}
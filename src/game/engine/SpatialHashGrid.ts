@@ -9,11 +9,13 @@ export interface SpatialCell {
 
 export class SpatialHashGrid {
     private cellSize: number;
+    private wrapSize: { width: number; height: number } | null; // Mundo toroidal: las celdas se repiten
     private grid: Map<string, SpatialCell> = new Map();
     private entityCells: Map<string, string[]> = new Map(); // entidad -> celdas que ocupa
 
-    constructor(cellSize: number = 100) {
+    constructor(cellSize: number = 100, wrapSize?: { width: number; height: number }) {
         this.cellSize = cellSize;
+        this.wrapSize = wrapSize ?? null;
     }
 
     // Obtener key de celda
@@ -31,26 +33,50 @@ export class SpatialHashGrid {
 
     // Obtener todas las celdas que ocupa una entidad
     private getEntityCells(entity: Entity): string[] {
-        const cells: string[] = [];
-        const minX = entity.position.x - entity.radius;
-        const maxX = entity.position.x + entity.radius;
-        const minY = entity.position.y - entity.radius;
-        const maxY = entity.position.y + entity.radius;
+        return this.getCellsInArea(
+            entity.position.x - entity.radius, entity.position.y - entity.radius,
+            entity.position.x + entity.radius, entity.position.y + entity.radius
+        );
+    }
 
-        const startCellX = Math.floor(minX / this.cellSize);
-        const endCellX = Math.floor(maxX / this.cellSize);
-        const startCellY = Math.floor(minY / this.cellSize);
-        const endCellY = Math.floor(maxY / this.cellSize);
+    // Celdas que cubre un rectángulo (en wrap, partido por el borde del mundo)
+    private getCellsInArea(minX: number, minY: number, maxX: number, maxY: number): string[] {
+        const cells: string[] = [];
 
-        for (let x = startCellX; x <= endCellX; x++) {
-            for (let y = startCellY; y <= endCellY; y++) {
-                cells.push(`${x},${y}`);
+        for (const [startCellX, endCellX] of this.getCellSpans(minX, maxX, this.wrapSize?.width)) {
+            for (const [startCellY, endCellY] of this.getCellSpans(minY, maxY, this.wrapSize?.height)) {
+                for (let x = startCellX; x <= endCellX; x++) {
+                    for (let y = startCellY; y <= endCellY; y++) {
+                        cells.push(`${x},${y}`);
+                    }
+                }
             }
         }
 
         return cells;
     }
 
+    // Rangos de índices de celda de un eje; con size (wrap) se llevan a [0, size) y se parten en el borde
+    private getCellSpans(min: number, max: number, size?: number): Array<[number, number]> {
+        if (size === undefined) {
+            return [[Math.floor(min / this.cellSize), Math.floor(max / this.cellSize)]];
+        }
+
+        const lastCell = Math.ceil(size / this.cellSize) - 1;
+        if (max - min >= size) return [[0, lastCell]];
+
+        const shift = Math.floor(min / size) * size;
+        const start = min - shift;
+        const end = max - shift;
+        if (end < size) {
+            return [[Math.floor(start / this.cellSize), Math.floor(end / this.cellSize)]];
+        }
+        return [
+            [Math.floor(start / this.cellSize), lastCell],
+            [0, Math.floor((end - size) / this.cellSize)]
+        ];
+    }
+
     // Insertar entidad en el grid
     insert(entity: Entity): void {
         const cells = this.getEntityCells(entity);
@@ -115,21 +141,13 @@ export class SpatialHashGrid {
 
     // Obtener entidades en un área rectangular
     queryArea(minX: number, minY: number, maxX: number, maxY: number): string[] {
-        const startCellX = Math.floor(minX / this.cellSize);
-        const endCellX = Math.floor(maxX / this.cellSize);
-        const startCellY = Math.floor(minY / this.cellSize);
-        const endCellY = Math.floor(maxY / this.cellSize);
-
         const entities = new Set<string>();
 
-        for (let x = startCellX; x <= endCellX; x++) {
-            for (let y = startCellY; y <= endCellY; y++) {
-                const cellKey = `${x},${y}`;
-                const cell = this.grid.get(cellKey);
-                if (cell) {
-                    for (const entityId of cell.entities) {
-                        entities.add(entityId);
-                    }
+        for (const cellKey of this.getCellsInArea(minX, minY, maxX, maxY)) {
+            const cell = this.grid.get(cellKey);
+            if (cell) {
+                for (const entityId of cell.entities) {
+                    entities.add(entityId);
                 }
             }
         }
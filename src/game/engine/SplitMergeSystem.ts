@@ -1,6 +1,7 @@
 // Sistema de Split/Merge para Agario Roles
 import type { Entity, Vector2D } from './PhysicsEngine';
 import { PhysicsEngine } from './PhysicsEngine';
+import type { Clock } from './Clock';
 
 export interface SplitConfig {
     minMassToSplit: number;
@@ -9,23 +10,26 @@ export interface SplitConfig {
     splitCooldown: number; // Cooldown en ms
     maxSplitParts: number; // Máximo número de partes que puede tener un jugador
     mergeTime: number; // Tiempo antes de que las partes puedan fusionarse (ms)
-}
-
-export interface PlayerSplit {
-    id: string;
-    parentId: string;
-    createdAt: number;
-    canMerge: boolean;
+    repulsionStrength: number; // Fracción del solapamiento entre hermanas que se corrige por tick (0-1)
+    cohesionSpeed: number; // Atracción hacia el centro de masa mientras el merge está bloqueado (px/s)
+    mergeAttractionSpeed: number; // Atracción hacia el centro de masa con el merge desbloqueado (px/s)
+    velocityCohesion: number; // Peso de la velocidad media del grupo al dirigir cada célula (0-1)
+    minExplodePieceMass: number; // Masa mínima de cada trozo al explotar (virus)
 }
 
 export class SplitMergeSystem {
     private physicsEngine: PhysicsEngine;
+    private clock: Clock;
     private config: SplitConfig;
-    private playerSplits: Map<string, PlayerSplit[]> = new Map();
+    private mergeUnlockTime: Map<string, number> = new Map(); // célula -> instante en que puede fusionarse
     private lastSplitTime: Map<string, number> = new Map();
+    private splitConditions: Array<(cell: Entity) => boolean> = [];
+    private mergeOverrides: Array<(cell: Entity) => boolean> = [];
+    private splitListeners: Array<(parent: Entity, child: Entity) => void> = [];
 
-    constructor(physicsEngine: PhysicsEngine, config: Partial<SplitConfig> = {}) {
+    constructor(physicsEngine: PhysicsEngine, clock: Clock, config: Partial<SplitConfig> = {}) {
         this.physicsEngine = physicsEngine;
+        this.clock = clock;
         this.config = {
             minMassToSplit: 35,
             splitRatio: 0.5, // Nueva célula toma 50% de la masa
@@ -33,8 +37,40 @@ export class SplitMergeSystem {
             splitCooldown: 1000, // 1 segundo
             maxSplitParts: 16,
             mergeTime: 30000, // 30 segundos antes de poder fusionarse
+            repulsionStrength: 0.5,
+            cohesionSpeed: 20,
+            mergeAttractionSpeed: 90,
+            velocityCohesion: 0.4,
+            minExplodePieceMass: 15,
             ...config
         };
+
+        // Las células hermanas no se comen: se empujan o se fusionan
+        this.physicsEngine.onContact('merge-candidate', ({ a, b }) => this.handleSiblingContact(a, b));
+    }
+
+    // Registrar una condición extra para poder hacer split (p. ej. efectos de estado)
+    addSplitCondition(condition: (cell: Entity) => boolean): void {
+        this.splitConditions.push(condition);
+    }
+
+    // Registrar una excepción al bloqueo de merge: mientras devuelva true la célula puede fusionarse ya
+    addMergeOverride(override: (cell: Entity) => boolean): void {
+        this.mergeOverrides.push(override);
+    }
+
+    // Suscribirse a las células nuevas creadas por split o explosión (devuelve una función para desuscribirse)
+    onCellSplit(listener: (parent: Entity, child: Entity) => void): () => void {
+        this.splitListeners.push(listener);
+        return () => {
+            this.splitListeners = this.splitListeners.filter(l => l !== listener);
+        };
+    }
+
+    private emitCellSplit(parent: Entity, child: Entity): void {
+        for (const listener of this.splitListeners) {
+            listener(parent, child);
+        }
     }
 
     // Verificar si un jugador puede hacer split
@@ -46,14 +82,24 @@ export class SplitMergeSystem {
         if (player.mass < this.config.minMassToSplit) return false;
 
         // Verificar cooldown
-        const lastSplit = this.lastSplitTime.get(playerId) || 0;
-        if (Date.now() - lastSplit < this.config.splitCooldown) return false;
+        if (this.getSplitCooldownRemaining(playerId) > 0) return false;
 
-        // Verificar número máximo de partes
-        const splits = this.playerSplits.get(playerId) || [];
-        if (splits.length >= this.config.maxSplitParts - 1) return false; // -1 porque el original cuenta
+        // Verificar número máximo de partes del dueño
+        const ownerId = player.ownerId ?? player.id;
+        if (this.getPlayerCells(ownerId).length >= this.config.maxSplitParts) return false;
 
-        return true;
+        return this.splitConditions.every(condition => condition(player));
+    }
+
+    // Tiempo restante de cooldown de split (el reloj de simulación empieza en 0)
+    private getSplitCooldownRemaining(playerId: string): number {
+        const lastSplit = this.lastSplitTime.get(playerId);
+        if (lastSplit === undefined) return 0;
+
+        // El rol (u otros modificadores) pueden acortar o alargar el cooldown
+        const cell = this.physicsEngine.getEntity(playerId);
+        const multiplier = cell ? this.physicsEngine.getModifiers(cell).splitCooldownMultiplier : 1;
+        return Math.max(0, this.config.splitCooldown * multiplier - (this.clock.now() - lastSplit));
     }
 
     // Realizar split del jugador
@@ -64,7 +110,7 @@ export class SplitMergeSystem {
         if (!player) return false;
 
         // Calcular dirección del split
-        let splitDirection = direction || { x: 0, y: -1 }; // Por defecto hacia arriba
+        const splitDirection = direction || { x: 0, y: -1 }; // Por defecto hacia arriba
         
         // Normalizar dirección
         const magnitude = Math.sqrt(splitDirection.x ** 2 + splitDirection.y ** 2);
@@ -81,7 +127,7 @@ export class SplitMergeSystem {
         this.physicsEngine.updateEntityMass(playerId, remainingMass);
 
         // Crear nueva célula
-        const newCellId = `${playerId}_split_${Date.now()}`;
+        const newCellId = this.physicsEngine.generateId(`${player.ownerId ?? playerId}_split`);
         const newCellPosition = {
             x: player.position.x + splitDirection.x * (player.radius + 10),
             y: player.position.y + splitDirection.y * (player.radius + 10)
@@ -91,8 +137,16 @@ export class SplitMergeSystem {
             newCellId,
             player.type,
             newCellMass,
-            newCellPosition
+            newCellPosition,
+            player.ownerId
         );
+        if (player.role !== undefined) {
+            newCell.role = player.role;
+        }
+        if (player.teamId !== undefined) {
+            newCell.teamId = player.teamId;
+        }
+        this.emitCellSplit(player, newCell);
 
         // Aplicar fuerza de separación
         this.physicsEngine.applyMovement(newCellId, {
@@ -106,18 +160,14 @@ export class SplitMergeSystem {
             y: -splitDirection.y * (this.config.splitForce * 0.3)
         });
 
-        // Registrar split
-        const playerSplits = this.playerSplits.get(playerId) || [];
-        playerSplits.push({
-            id: newCellId,
-            parentId: playerId,
-            createdAt: Date.now(),
-            canMerge: false
-        });
-        this.playerSplits.set(playerId, playerSplits);
+        // Ambas mitades quedan bloqueadas para el merge durante mergeTime
+        const now = this.clock.now();
+        this.mergeUnlockTime.set(playerId, now + this.config.mergeTime);
+        this.mergeUnlockTime.set(newCellId, now + this.config.mergeTime);
 
-        // Actualizar tiempo del último split
-        this.lastSplitTime.set(playerId, Date.now());
+        // Actualizar tiempo del último split (también para la nueva célula)
+        this.lastSplitTime.set(playerId, now);
+        this.lastSplitTime.set(newCellId, now);
 
         console.log(`🔥 Split realizado: ${playerId} → ${newCellId}`, {
             originalMass: remainingMass.toFixed(1),
@@ -127,47 +177,174 @@ export class SplitMergeSystem {
         return true;
     }
 
-    // Actualizar sistema de merge (llamar en game loop)
-    update(): void {
-        const currentTime = Date.now();
-
-        // Actualizar estado de merge para todas las splits
-        for (const [playerId, splits] of this.playerSplits.entries()) {
-            for (const split of splits) {
-                // Habilitar merge después del tiempo especificado
-                if (!split.canMerge && currentTime - split.createdAt > this.config.mergeTime) {
-                    split.canMerge = true;
-                }
-                
-                // Intentar merge si está disponible
-                if (split.canMerge) {
-                    this.attemptMerge(playerId, split.id);
-                }
+    // Explotar una célula en varios trozos repartidos en círculo (al comerse un virus)
+    // La célula conserva la mitad de su masa; la otra mitad se reparte entre los trozos nuevos
+    // Respeta maxSplitParts del dueño. Devuelve el número de trozos creados
+    explodeCell(cellId: string): number {
+        const cell = this.physicsEngine.getEntity(cellId);
+        if (!cell) return 0;
+
+        const ownerId = cell.ownerId ?? cell.id;
+        const freeSlots = this.config.maxSplitParts - this.getPlayerCells(ownerId).length;
+        const massToDistribute = cell.mass / 2;
+        const pieces = Math.min(freeSlots, Math.floor(massToDistribute / this.config.minExplodePieceMass));
+        if (pieces <= 0) return 0;
+
+        const pieceMass = massToDistribute / pieces;
+        this.physicsEngine.updateEntityMass(cellId, cell.mass - massToDistribute);
+
+        const now = this.clock.now();
+        this.mergeUnlockTime.set(cellId, now + this.config.mergeTime);
+
+        for (let i = 0; i < pieces; i++) {
+            const angle = (i / pieces) * Math.PI * 2;
+            const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+            const pieceId = this.physicsEngine.generateId(`${ownerId}_split`);
+
+            const piece = this.physicsEngine.createEntity(
+                pieceId,
+                cell.type,
+                pieceMass,
+                {
+                    x: cell.position.x + direction.x * (cell.radius + 5),
+                    y: cell.position.y + direction.y * (cell.radius + 5)
+                },
+                cell.ownerId
+            );
+            if (cell.role !== undefined) {
+                piece.role = cell.role;
+            }
+            if (cell.teamId !== undefined) {
+                piece.teamId = cell.teamId;
             }
+            this.emitCellSplit(cell, piece);
+
+            // Impulso radial de la explosión
+            piece.velocity.x = direction.x * this.config.splitForce;
+            piece.velocity.y = direction.y * this.config.splitForce;
+
+            this.mergeUnlockTime.set(pieceId, now + this.config.mergeTime);
+            this.lastSplitTime.set(pieceId, now);
         }
+
+        console.log(`💥 Célula ${cellId} explotó en ${pieces + 1} partes`);
+        return pieces;
     }
 
-    // Intentar fusionar dos células del mismo jugador
-    private attemptMerge(parentId: string, splitId: string): void {
-        const parent = this.physicsEngine.getEntity(parentId);
-        const split = this.physicsEngine.getEntity(splitId);
+    // Actualizar sistema de merge (llamar en game loop, antes de integrar la física)
+    update(deltaTime: number): void {
+        // Limpiar estado de células que ya no existen
+        for (const cellId of this.mergeUnlockTime.keys()) {
+            if (!this.physicsEngine.getEntity(cellId)) {
+                this.mergeUnlockTime.delete(cellId);
+                this.lastSplitTime.delete(cellId);
+            }
+        }
 
-        if (!parent || !split) {
-            // Limpiar split que ya no existe
-            this.removePlayerSplit(parentId, splitId);
-            return;
+        // Atraer las células de cada dueño hacia su centro de masa
+        const cellsByOwner = new Map<string, Entity[]>();
+        for (const entity of this.physicsEngine.getAllEntities()) {
+            if (!PhysicsEngine.isCell(entity) || entity.ownerId === undefined) continue;
+            const cells = cellsByOwner.get(entity.ownerId) || [];
+            cells.push(entity);
+            cellsByOwner.set(entity.ownerId, cells);
         }
 
-        // Verificar si están lo suficientemente cerca para fusionarse
-        const distance = Math.sqrt(
-            (parent.position.x - split.position.x) ** 2 +
-            (parent.position.y - split.position.y) ** 2
-        );
+        for (const cells of cellsByOwner.values()) {
+            if (cells.length > 1) {
+                this.applyGroupAttraction(cells, deltaTime);
+            }
+        }
+    }
 
-        const mergeDistance = (parent.radius + split.radius) * 0.8; // 80% de la suma de radios
+    // Puede fusionarse una célula (su bloqueo de merge ya expiró o alguna excepción lo permite)
+    canMerge(cellId: string): boolean {
+        const unlockTime = this.mergeUnlockTime.get(cellId);
+        if (unlockTime === undefined || this.clock.now() >= unlockTime) return true;
+
+        const cell = this.physicsEngine.getEntity(cellId);
+        return cell !== undefined && this.mergeOverrides.some(override => override(cell));
+    }
 
-        if (distance < mergeDistance) {
-            this.mergeCells(parentId, splitId);
+    // Quitar el cooldown de split de todas las células de un dueño
+    resetSplitCooldown(ownerId: string): void {
+        for (const cell of this.getPlayerCells(ownerId)) {
+            this.lastSplitTime.delete(cell.id);
+        }
+    }
+
+    private getTimeUntilMerge(cellId: string): number {
+        const unlockTime = this.mergeUnlockTime.get(cellId);
+        return unlockTime === undefined ? 0 : Math.max(0, unlockTime - this.clock.now());
+    }
+
+    private applyGroupAttraction(cells: Entity[], deltaTime: number): void {
+        const center = this.physicsEngine.getCenterOfMass(cells);
+
+        for (const cell of cells) {
+            const { x: dx, y: dy } = this.physicsEngine.getDelta(cell.position, center);
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            if (distance < 0.001) continue;
+
+            // Suave mientras el merge está bloqueado, más fuerte cuando ya pueden fusionarse
+            const speed = this.canMerge(cell.id) ? this.config.mergeAttractionSpeed : this.config.cohesionSpeed;
+            // No sobrepasar el centro de masa en un solo tick
+            const step = Math.min(distance, speed * (deltaTime / 1000));
+
+            this.physicsEngine.translateEntity(cell.id, {
+                x: (dx / distance) * step,
+                y: (dy / distance) * step
+            });
+        }
+    }
+
+    // Contacto entre dos células del mismo dueño
+    private handleSiblingContact(a: Entity, b: Entity): void {
+        if (this.canMerge(a.id) && this.canMerge(b.id)) {
+            this.attemptMerge(a, b);
+        } else {
+            this.separateCells(a, b);
+        }
+    }
+
+    // Empujar dos células hermanas para deshacer su solapamiento (la más ligera se mueve más)
+    private separateCells(a: Entity, b: Entity): void {
+        let { x: dx, y: dy } = this.physicsEngine.getDelta(a.position, b.position);
+        let distance = Math.sqrt(dx * dx + dy * dy);
+
+        // Centros coincidentes: separar sobre el eje X de forma determinista
+        if (distance < 0.001) {
+            dx = 1;
+            dy = 0;
+            distance = 1;
+        }
+
+        const overlap = a.radius + b.radius - distance;
+        if (overlap <= 0) return;
+
+        const correction = overlap * this.config.repulsionStrength;
+        const totalMass = a.mass + b.mass;
+        const nx = dx / distance;
+        const ny = dy / distance;
+
+        const shareA = b.mass / totalMass;
+        const shareB = a.mass / totalMass;
+
+        this.physicsEngine.translateEntity(a.id, { x: -nx * correction * shareA, y: -ny * correction * shareA });
+        this.physicsEngine.translateEntity(b.id, { x: nx * correction * shareB, y: ny * correction * shareB });
+    }
+
+    // Fusionar cuando el centro de la célula menor queda dentro de la mayor
+    private attemptMerge(a: Entity, b: Entity): void {
+        const [larger, smaller] = a.mass >= b.mass ? [a, b] : [b, a];
+
+        if (this.physicsEngine.getDistance(larger.position, smaller.position) < larger.radius) {
+            // Conservar el ID de la célula principal del dueño si participa en la fusión
+            if (smaller.id === smaller.ownerId) {
+                this.mergeCells(smaller.id, larger.id);
+            } else {
+                this.mergeCells(larger.id, smaller.id);
+            }
         }
     }
 
@@ -181,74 +358,62 @@ export class SplitMergeSystem {
         // Calcular nueva masa total
         const totalMass = parent.mass + split.mass;
 
-        // Calcular nueva posición (promedio ponderado por masa)
-        const newPosition = {
-            x: (parent.position.x * parent.mass + split.position.x * split.mass) / totalMass,
-            y: (parent.position.y * parent.mass + split.position.y * split.mass) / totalMass
-        };
+        // Calcular nueva posición y velocidad (promedio ponderado por masa, por el camino corto en wrap)
+        const toSplit = this.physicsEngine.getDelta(parent.position, split.position);
+        parent.velocity.x = (parent.velocity.x * parent.mass + split.velocity.x * split.mass) / totalMass;
+        parent.velocity.y = (parent.velocity.y * parent.mass + split.velocity.y * split.mass) / totalMass;
 
-        // Actualizar célula padre
+        // Actualizar célula padre (posición antes que masa para que el spatial grid quede al día)
+        this.physicsEngine.translateEntity(parentId, {
+            x: toSplit.x * (split.mass / totalMass),
+            y: toSplit.y * (split.mass / totalMass)
+        });
         this.physicsEngine.updateEntityMass(parentId, totalMass);
-        parent.position.x = newPosition.x;
-        parent.position.y = newPosition.y;
 
         // Eliminar célula split
         this.physicsEngine.removeEntity(splitId);
-
-        // Limpiar de la lista de splits
-        this.removePlayerSplit(parentId, splitId);
+        this.mergeUnlockTime.delete(splitId);
+        this.lastSplitTime.delete(splitId);
 
         console.log(`🔗 Merge realizado: ${splitId} → ${parentId}`, {
             newMass: totalMass.toFixed(1)
         });
     }
 
-    // Eliminar split de la lista de un jugador
-    private removePlayerSplit(playerId: string, splitId: string): void {
-        const splits = this.playerSplits.get(playerId) || [];
-        const index = splits.findIndex(s => s.id === splitId);
-        if (index >= 0) {
-            splits.splice(index, 1);
-            this.playerSplits.set(playerId, splits);
+    // Centro de masa de un grupo de células con posiciones ya desenvueltas
+    // (para células vivas del mundo, PhysicsEngine.getCenterOfMass tiene en cuenta el wrap)
+    static getCenterOfMass(cells: Entity[]): Vector2D {
+        let totalMass = 0;
+        let x = 0;
+        let y = 0;
+        for (const cell of cells) {
+            x += cell.position.x * cell.mass;
+            y += cell.position.y * cell.mass;
+            totalMass += cell.mass;
         }
+        return totalMass > 0 ? { x: x / totalMass, y: y / totalMass } : { x: 0, y: 0 };
     }
 
-    // Obtener todas las células de un jugador
+    // Obtener todas las células de un jugador (la principal primero si sigue viva)
     getPlayerCells(playerId: string): Entity[] {
-        const cells: Entity[] = [];
-        
-        // Célula principal
-        const mainCell = this.physicsEngine.getEntity(playerId);
-        if (mainCell) {
-            cells.push(mainCell);
-        }
-
-        // Células split
-        const splits = this.playerSplits.get(playerId) || [];
-        for (const split of splits) {
-            const splitCell = this.physicsEngine.getEntity(split.id);
-            if (splitCell) {
-                cells.push(splitCell);
-            }
-        }
-
-        return cells;
+        return this.physicsEngine.getEntitiesByOwner(playerId);
     }
 
     // Obtener información de splits para debug
     getPlayerSplitInfo(playerId: string): any {
-        const splits = this.playerSplits.get(playerId) || [];
-        const lastSplit = this.lastSplitTime.get(playerId) || 0;
-        const cooldownRemaining = Math.max(0, this.config.splitCooldown - (Date.now() - lastSplit));
+        const cells = this.getPlayerCells(playerId);
+        const mainCellId = cells.some(c => c.id === playerId) ? playerId : cells[0]?.id;
+        const splits = cells.filter(c => c.id !== mainCellId);
+        const cooldownRemaining = mainCellId ? this.getSplitCooldownRemaining(mainCellId) : 0;
 
         return {
             splitCount: splits.length,
-            canSplit: this.canPlayerSplit(playerId),
+            canSplit: cells.some(c => this.canPlayerSplit(c.id)),
             cooldownRemaining: cooldownRemaining,
             splits: splits.map(s => ({
                 id: s.id,
-                canMerge: s.canMerge,
-                timeUntilMerge: Math.max(0, this.config.mergeTime - (Date.now() - s.createdAt))
+                canMerge: this.canMerge(s.id),
+                timeUntilMerge: this.getTimeUntilMerge(s.id)
             }))
         };
     }
@@ -265,17 +430,38 @@ export class SplitMergeSystem {
     }
 
     // Aplicar movimiento a todas las células del jugador
+    // Cada célula mezcla su propia velocidad con la media del grupo ponderada por masa,
+    // así las pequeñas no se escapan y el grupo se mueve de forma cohesionada
     applyMovementToAllCells(playerId: string, direction: Vector2D): void {
         const cells = this.getPlayerCells(playerId);
         
         for (const cell of cells) {
             this.physicsEngine.applyMovement(cell.id, direction);
         }
+
+        if (cells.length < 2) return;
+
+        let totalMass = 0;
+        let groupVx = 0;
+        let groupVy = 0;
+        for (const cell of cells) {
+            groupVx += cell.velocity.x * cell.mass;
+            groupVy += cell.velocity.y * cell.mass;
+            totalMass += cell.mass;
+        }
+        groupVx /= totalMass;
+        groupVy /= totalMass;
+
+        const k = this.config.velocityCohesion;
+        for (const cell of cells) {
+            cell.velocity.x = cell.velocity.x * (1 - k) + groupVx * k;
+            cell.velocity.y = cell.velocity.y * (1 - k) + groupVy * k;
+        }
     }
 
     // Limpiar sistema (para testing)
     clear(): void {
-        this.playerSplits.clear();
+        this.mergeUnlockTime.clear();
         this.lastSplitTime.clear();
     }
 
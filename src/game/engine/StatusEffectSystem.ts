@@ -0,0 +1,340 @@
+// Sistema de efectos de estado para Agario Roles
+// Modificadores temporales sobre células (slow, haste, shield, stealth, root, magnet, merge) con duración,
+// reglas de acumulación y callbacks por tick. Caducan en tiempo de simulación
+import type { Entity, StatModifiers } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { SplitMergeSystem } from './SplitMergeSystem';
+import type { Clock } from './Clock';
+
+export type StatusEffectType = 'slow' | 'haste' | 'shield' | 'stealth' | 'root' | 'magnet' | 'merge';
+
+// Qué pasa al aplicar un efecto que la célula ya tiene
+// - refresh: reinicia la duración
+// - extend: suma la duración nueva a la restante
+// - stack: añade un stack (hasta maxStacks) y reinicia la duración
+// - ignore: se queda el efecto actual
+export type StatusStackingRule = 'refresh' | 'extend' | 'stack' | 'ignore';
+
+export interface ActiveStatusEffect {
+    type: StatusEffectType;
+    sourceId?: string; // Jugador que aplicó el efecto
+    stacks: number;
+    appliedAt: number;
+    expiresAt: number;
+    nextTickAt: number;
+}
+
+// Sistemas a los que pueden acceder los callbacks por tick
+export interface StatusEffectContext {
+    physicsEngine: PhysicsEngine;
+    splitMergeSystem: SplitMergeSystem;
+}
+
+export interface StatusEffectDefinition {
+    type: StatusEffectType;
+    name: string; // Nombre para el HUD de buffs
+    duration: number; // ms por defecto
+    stacking: StatusStackingRule;
+    maxStacks: number;
+    tickInterval: number; // ms entre callbacks onTick (0: cada tick de simulación)
+    modifiers?: (stacks: number) => Partial<StatModifiers>;
+    inedible?: boolean; // Otras células no pueden comérsela
+    hidden?: boolean; // Invisible para los demás jugadores (render y percepción de bots)
+    blocksSplit?: boolean;
+    allowsMerge?: boolean; // Se fusiona con sus hermanas sin esperar a mergeTime
+    onTick?: (cell: Entity, effect: ActiveStatusEffect, context: StatusEffectContext) => void;
+}
+
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+    // Cada stack reduce la velocidad un 25%
+    slow: {
+        type: 'slow',
+        name: 'Lentitud',
+        duration: 2000,
+        stacking: 'stack',
+        maxStacks: 3,
+        tickInterval: 0,
+        modifiers: stacks => ({ speedMultiplier: Math.pow(0.75, stacks) })
+    },
+    haste: {
+        type: 'haste',
+        name: 'Velocidad',
+        duration: 3000,
+        stacking: 'refresh',
+        maxStacks: 1,
+        tickInterval: 0,
+        modifiers: () => ({ speedMultiplier: 1.4 })
+    },
+    shield: {
+        type: 'shield',
+        name: 'Escudo',
+        duration: 3000,
+        stacking: 'refresh',
+        maxStacks: 1,
+        tickInterval: 0,
+        inedible: true
+    },
+    stealth: {
+        type: 'stealth',
+        name: 'Sigilo',
+        duration: 4000,
+        stacking: 'extend',
+        maxStacks: 1,
+        tickInterval: 0,
+        hidden: true
+    },
+    // Inmoviliza: sin velocidad propia (también anula empujes) y sin split
+    root: {
+        type: 'root',
+        name: 'Enraizado',
+        duration: 1500,
+        stacking: 'ignore',
+        maxStacks: 1,
+        tickInterval: 0,
+        modifiers: () => ({ speedMultiplier: 0 }),
+        blocksSplit: true,
+        onTick: cell => {
+            cell.velocity.x = 0;
+            cell.velocity.y = 0;
+        }
+    },
+    // Atrae la comida cercana hacia la célula cada cierto tiempo
+    magnet: {
+        type: 'magnet',
+        name: 'Imán',
+        duration: 6000,
+        stacking: 'refresh',
+        maxStacks: 1,
+        tickInterval: 200,
+        onTick: (cell, _effect, { physicsEngine }) => {
+            const reach = cell.radius + 200;
+            const nearby = physicsEngine.getSpatialGrid().queryArea(
+                cell.position.x - reach, cell.position.y - reach,
+                cell.position.x + reach, cell.position.y + reach
+            );
+
+            for (const id of nearby) {
+                const food = physicsEngine.getEntity(id);
+                if (!food || (food.type !== 'pellet' && food.type !== 'ejected')) continue;
+
+                const { x: dx, y: dy } = physicsEngine.getDelta(food.position, cell.position);
+                const distance = Math.sqrt(dx * dx + dy * dy);
+                if (distance === 0 || distance > reach) continue;
+
+                food.velocity.x = (dx / distance) * 300;
+                food.velocity.y = (dy / distance) * 300;
+            }
+        }
+    },
+    // Mientras dura, la célula puede fusionarse con sus hermanas sin esperar a mergeTime
+    merge: {
+        type: 'merge',
+        name: 'Fusión',
+        duration: 5000,
+        stacking: 'refresh',
+        maxStacks: 1,
+        tickInterval: 0,
+        allowsMerge: true
+    }
+};
+
+export interface StatusEffectOptions {
+    duration?: number; // ms (por defecto la de la definición)
+    sourceId?: string;
+}
+
+export class StatusEffectSystem {
+    private physicsEngine: PhysicsEngine;
+    private splitMergeSystem: SplitMergeSystem;
+    private clock: Clock;
+    private effects: Map<string, Map<StatusEffectType, ActiveStatusEffect>> = new Map(); // célula -> efectos
+
+    constructor(physicsEngine: PhysicsEngine, splitMergeSystem: SplitMergeSystem, clock: Clock) {
+        this.physicsEngine = physicsEngine;
+        this.splitMergeSystem = splitMergeSystem;
+        this.clock = clock;
+
+        // Enganchar los efectos a velocidad, comestibilidad, split y merge
+        this.physicsEngine.addModifierSource(entity => this.getModifiers(entity.id));
+        this.physicsEngine.addEatFilter((_predator, prey) => !this.isInedible(prey.id));
+        splitMergeSystem.addSplitCondition(cell => !this.hasFlag(cell.id, 'blocksSplit'));
+        splitMergeSystem.addMergeOverride(cell => this.hasFlag(cell.id, 'allowsMerge'));
+
+        // Las células nuevas de un split o explosión heredan los efectos de su madre (con lo que les queda)
+        splitMergeSystem.onCellSplit((parent, child) => this.copyEffects(parent.id, child.id));
+    }
+
+    // Aplicar un efecto a una célula siguiendo su regla de acumulación
+    apply(cellId: string, type: StatusEffectType, options: StatusEffectOptions = {}): boolean {
+        const cell = this.physicsEngine.getEntity(cellId);
+        if (!cell || !PhysicsEngine.isCell(cell)) return false;
+
+        const definition = STATUS_EFFECT_DEFINITIONS[type];
+        const duration = options.duration ?? definition.duration;
+        const now = this.clock.now();
+
+        const cellEffects = this.effects.get(cellId) || new Map<StatusEffectType, ActiveStatusEffect>();
+        this.effects.set(cellId, cellEffects);
+
+        const current = cellEffects.get(type);
+        if (!current) {
+            cellEffects.set(type, {
+                type,
+                sourceId: options.sourceId,
+                stacks: 1,
+                appliedAt: now,
+                expiresAt: now + duration,
+                nextTickAt: now
+            });
+            return true;
+        }
+
+        switch (definition.stacking) {
+            case 'refresh':
+                current.expiresAt = Math.max(current.expiresAt, now + duration);
+                break;
+            case 'extend':
+                current.expiresAt += duration;
+                break;
+            case 'stack':
+                current.stacks = Math.min(definition.maxStacks, current.stacks + 1);
+                current.expiresAt = Math.max(current.expiresAt, now + duration);
+                break;
+            case 'ignore':
+                return false;
+        }
+        current.sourceId = options.sourceId ?? current.sourceId;
+        return true;
+    }
+
+    // Aplicar un efecto a todas las células de un jugador
+    applyToOwner(ownerId: string, type: StatusEffectType, options: StatusEffectOptions = {}): void {
+        for (const cell of this.physicsEngine.getEntitiesByOwner(ownerId)) {
+            this.apply(cell.id, type, options);
+        }
+    }
+
+    private copyEffects(fromCellId: string, toCellId: string): void {
+        const cellEffects = this.effects.get(fromCellId);
+        if (!cellEffects || cellEffects.size === 0) return;
+
+        const copy = new Map<StatusEffectType, ActiveStatusEffect>();
+        for (const [type, effect] of cellEffects) {
+            copy.set(type, { ...effect });
+        }
+        this.effects.set(toCellId, copy);
+    }
+
+    remove(cellId: string, type: StatusEffectType): void {
+        this.effects.get(cellId)?.delete(type);
+    }
+
+    // Caducar efectos y ejecutar sus callbacks (llamar en game loop, antes de la física)
+    update(): void {
+        const now = this.clock.now();
+
+        for (const [cellId, cellEffects] of this.effects) {
+            const cell = this.physicsEngine.getEntity(cellId);
+            if (!cell) {
+                this.effects.delete(cellId);
+                continue;
+            }
+
+            for (const [type, effect] of cellEffects) {
+                if (now >= effect.expiresAt) {
+                    cellEffects.delete(type);
+                    continue;
+                }
+
+                const definition = STATUS_EFFECT_DEFINITIONS[type];
+                if (definition.onTick && now >= effect.nextTickAt) {
+                    definition.onTick(cell, effect, {
+                        physicsEngine: this.physicsEngine,
+                        splitMergeSystem: this.splitMergeSystem
+                    });
+                    effect.nextTickAt = now + definition.tickInterval;
+                }
+            }
+
+            if (cellEffects.size === 0) {
+                this.effects.delete(cellId);
+            }
+        }
+    }
+
+    private getModifiers(cellId: string): Partial<StatModifiers> | undefined {
+        const cellEffects = this.effects.get(cellId);
+        if (!cellEffects) return undefined;
+
+        let speedMultiplier = 1;
+        let massSpeedPenalty = 1;
+        let eatRatioMultiplier = 1;
+        let splitCooldownMultiplier = 1;
+        for (const effect of cellEffects.values()) {
+            const modifiers = STATUS_EFFECT_DEFINITIONS[effect.type].modifiers?.(effect.stacks);
+            if (!modifiers) continue;
+            speedMultiplier *= modifiers.speedMultiplier ?? 1;
+            massSpeedPenalty *= modifiers.massSpeedPenalty ?? 1;
+            eatRatioMultiplier *= modifiers.eatRatioMultiplier ?? 1;
+            splitCooldownMultiplier *= modifiers.splitCooldownMultiplier ?? 1;
+        }
+
+        return { speedMultiplier, massSpeedPenalty, eatRatioMultiplier, splitCooldownMultiplier };
+    }
+
+    private hasFlag(cellId: string, flag: 'inedible' | 'hidden' | 'blocksSplit' | 'allowsMerge'): boolean {
+        const cellEffects = this.effects.get(cellId);
+        if (!cellEffects) return false;
+
+        for (const effect of cellEffects.values()) {
+            if (STATUS_EFFECT_DEFINITIONS[effect.type][flag]) return true;
+        }
+        return false;
+    }
+
+    isInedible(cellId: string): boolean {
+        return this.hasFlag(cellId, 'inedible');
+    }
+
+    // Las células ocultas solo las ve su dueño
+    isVisibleTo(entity: Entity, viewerId: string): boolean {
+        if (entity.ownerId === viewerId) return true;
+        return !this.hasFlag(entity.id, 'hidden');
+    }
+
+    getEffects(cellId: string): ActiveStatusEffect[] {
+        const cellEffects = this.effects.get(cellId);
+        return cellEffects ? [...cellEffects.values()].map(effect => ({ ...effect })) : [];
+    }
+
+    getEffectTypes(cellId: string): StatusEffectType[] {
+        const cellEffects = this.effects.get(cellId);
+        return cellEffects ? [...cellEffects.keys()] : [];
+    }
+
+    // Efectos activos en alguna célula de un jugador (uno por tipo, el que más dura)
+    getPlayerEffects(playerId: string): ActiveStatusEffect[] {
+        const byType = new Map<StatusEffectType, ActiveStatusEffect>();
+
+        for (const cell of this.physicsEngine.getEntitiesByOwner(playerId)) {
+            for (const effect of this.effects.get(cell.id)?.values() ?? []) {
+                const current = byType.get(effect.type);
+                if (!current || effect.expiresAt > current.expiresAt) {
+                    byType.set(effect.type, effect);
+                }
+            }
+        }
+
+        return [...byType.values()].map(effect => ({ ...effect }));
+    }
+
+    // Olvidar los efectos de las células de un jugador (al salir o reaparecer)
+    removePlayer(playerId: string): void {
+        for (const cellId of this.effects.keys()) {
+            const cell = this.physicsEngine.getEntity(cellId);
+            if (!cell || cell.ownerId === playerId) {
+                this.effects.delete(cellId);
+            }
+        }
+    }
+}
@@ -0,0 +1,47 @@
+// Comportamientos de steering para los bots de Agario Roles
+// Cada comportamiento devuelve una dirección deseada de magnitud 0-1 para poder combinarlos con pesos
+import type { Vector2D } from './PhysicsEngine';
+
+function normalize(v: Vector2D): Vector2D {
+    const magnitude = Math.sqrt(v.x * v.x + v.y * v.y);
+    if (magnitude === 0) return { x: 0, y: 0 };
+    return { x: v.x / magnitude, y: v.y / magnitude };
+}
+
+// Ir directo hacia el objetivo a máxima velocidad
+export function seek(position: Vector2D, target: Vector2D): Vector2D {
+    return normalize({ x: target.x - position.x, y: target.y - position.y });
+}
+
+// Alejarse del objetivo a máxima velocidad
+export function flee(position: Vector2D, threat: Vector2D): Vector2D {
+    return normalize({ x: position.x - threat.x, y: position.y - threat.y });
+}
+
+// Ir hacia el objetivo frenando dentro de slowRadius (se detiene al llegar)
+export function arrive(position: Vector2D, target: Vector2D, slowRadius: number): Vector2D {
+    const dx = target.x - position.x;
+    const dy = target.y - position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance === 0) return { x: 0, y: 0 };
+
+    const speed = slowRadius > 0 ? Math.min(1, distance / slowRadius) : 1;
+    return { x: (dx / distance) * speed, y: (dy / distance) * speed };
+}
+
+// Suma ponderada de varios comportamientos, recortada a magnitud 1
+export function combine(behaviors: Array<{ direction: Vector2D; weight: number }>): Vector2D {
+    let x = 0;
+    let y = 0;
+    for (const { direction, weight } of behaviors) {
+        x += direction.x * weight;
+        y += direction.y * weight;
+    }
+
+    const magnitude = Math.sqrt(x * x + y * y);
+    if (magnitude > 1) {
+        x /= magnitude;
+        y /= magnitude;
+    }
+    return { x, y };
+}
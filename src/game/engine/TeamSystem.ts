@@ -0,0 +1,149 @@
+// Sistema de equipos para Agario Roles
+// Reparte a los jugadores en equipos equilibrados, impide que los compañeros se coman entre sí
+// (sí pueden alimentarse con masa expulsada) y agrega la puntuación de cada equipo
+import type { Entity } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+
+export type TeamId = 'red' | 'blue' | 'green' | 'yellow';
+
+export interface TeamDefinition {
+    id: TeamId;
+    name: string;
+    colors: [string, string]; // Gradiente de las células (centro, borde)
+}
+
+export const TEAM_DEFINITIONS: Record<TeamId, TeamDefinition> = {
+    red: { id: 'red', name: 'Rojo', colors: ['#ff6b6b', '#c0392b'] },
+    blue: { id: 'blue', name: 'Azul', colors: ['#4facfe', '#1e60c9'] },
+    green: { id: 'green', name: 'Verde', colors: ['#55efc4', '#00a884'] },
+    yellow: { id: 'yellow', name: 'Amarillo', colors: ['#ffeaa7', '#e1b12c'] }
+};
+
+export const TEAM_IDS = Object.keys(TEAM_DEFINITIONS) as TeamId[];
+
+export function isTeamId(value: unknown): value is TeamId {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEAM_DEFINITIONS, value);
+}
+
+// Definición del equipo de una entidad (undefined fuera del modo equipos)
+export function getTeamDefinition(entity: Entity): TeamDefinition | undefined {
+    return isTeamId(entity.teamId) ? TEAM_DEFINITIONS[entity.teamId] : undefined;
+}
+
+export interface TeamConfig {
+    teamCount: number; // Equipos en juego (2-4)
+}
+
+// Puntuación agregada de un equipo para el leaderboard
+export interface TeamScore {
+    teamId: TeamId;
+    name: string;
+    color: string;
+    members: number;
+    alive: number; // Miembros con al menos una célula
+    mass: number; // Masa total de las células del equipo
+    kills: number; // Rivales eliminados por el equipo
+}
+
+export class TeamSystem {
+    private physicsEngine: PhysicsEngine;
+    private config: TeamConfig;
+    private teams: TeamId[];
+    private assignments: Map<string, TeamId> = new Map(); // jugador -> equipo
+    private kills: Map<TeamId, number> = new Map();
+
+    constructor(physicsEngine: PhysicsEngine, config: Partial<TeamConfig> = {}) {
+        this.physicsEngine = physicsEngine;
+        this.config = {
+            teamCount: 2,
+            ...config
+        };
+        this.teams = TEAM_IDS.slice(0, Math.max(2, Math.min(TEAM_IDS.length, this.config.teamCount)));
+
+        // Los compañeros nunca se comen entre sí
+        this.physicsEngine.addEatFilter((predator, prey) => !TeamSystem.areTeammates(predator, prey));
+    }
+
+    static areTeammates(a: Entity, b: Entity): boolean {
+        return a.teamId !== undefined && a.teamId === b.teamId;
+    }
+
+    // Asignar un jugador al equipo con menos miembros (en empate, al de menos masa)
+    assignPlayer(playerId: string, teamId?: TeamId): TeamId {
+        const team = teamId !== undefined && this.teams.includes(teamId) ? teamId : this.pickBalancedTeam();
+        this.assignments.set(playerId, team);
+
+        // Las células que ya tenga el jugador pasan al equipo nuevo
+        for (const cell of this.physicsEngine.getEntitiesByOwner(playerId)) {
+            cell.teamId = team;
+        }
+        return team;
+    }
+
+    private pickBalancedTeam(): TeamId {
+        const scores = new Map(this.getTeamScores().map(score => [score.teamId, score]));
+
+        let best = this.teams[0];
+        for (const team of this.teams) {
+            const candidate = scores.get(team)!;
+            const current = scores.get(best)!;
+            if (candidate.members < current.members ||
+                (candidate.members === current.members && candidate.mass < current.mass)) {
+                best = team;
+            }
+        }
+        return best;
+    }
+
+    removePlayer(playerId: string): void {
+        this.assignments.delete(playerId);
+    }
+
+    getTeam(playerId: string): TeamId | undefined {
+        return this.assignments.get(playerId);
+    }
+
+    getTeams(): TeamId[] {
+        return [...this.teams];
+    }
+
+    getTeamMembers(teamId: TeamId): string[] {
+        return [...this.assignments].filter(([, team]) => team === teamId).map(([playerId]) => playerId);
+    }
+
+    // Contar una eliminación para el equipo del asesino (las bajas entre compañeros no cuentan)
+    recordKill(killerId: string, victimId: string): void {
+        const killerTeam = this.assignments.get(killerId);
+        if (killerTeam === undefined || killerTeam === this.assignments.get(victimId)) return;
+        this.kills.set(killerTeam, (this.kills.get(killerTeam) ?? 0) + 1);
+    }
+
+    // Puntuación de cada equipo, ordenada por masa total
+    getTeamScores(): TeamScore[] {
+        const scores: TeamScore[] = this.teams.map(teamId => ({
+            teamId,
+            name: TEAM_DEFINITIONS[teamId].name,
+            color: TEAM_DEFINITIONS[teamId].colors[0],
+            members: 0,
+            alive: 0,
+            mass: 0,
+            kills: this.kills.get(teamId) ?? 0
+        }));
+        const byTeam = new Map(scores.map(score => [score.teamId, score]));
+
+        for (const [playerId, teamId] of this.assignments) {
+            const score = byTeam.get(teamId)!;
+            const cells = this.physicsEngine.getEntitiesByOwner(playerId).filter(entity => PhysicsEngine.isCell(entity));
+
+            score.members++;
+            if (cells.length > 0) score.alive++;
+            score.mass += cells.reduce((total, cell) => total + cell.mass, 0);
+        }
+
+        return scores.sort((a, b) => b.mass - a.mass);
+    }
+
+    getConfig(): TeamConfig {
+        return { ...this.config };
+    }
+}
@@ -0,0 +1,124 @@
+// Sistema de virus para Agario Roles
+// Las células grandes que se comen un virus explotan; las pequeñas pueden esconderse debajo.
+// Alimentar un virus con masa expulsada lo hace crecer hasta disparar un virus nuevo
+import type { Entity, Vector2D } from './PhysicsEngine';
+import { PhysicsEngine } from './PhysicsEngine';
+import type { SplitMergeSystem } from './SplitMergeSystem';
+import type { SeededRandom } from './Random';
+
+export interface VirusConfig {
+    virusCount: number; // Virus que se mantienen en el mundo
+    maxViruses: number; // Límite total (incluye los disparados al alimentarlos)
+    virusMass: number; // Masa inicial de cada virus
+    virusShootMass: number; // Masa a la que un virus alimentado dispara uno nuevo
+    virusShootSpeed: number; // Velocidad de lanzamiento del virus nuevo (px/s)
+    spawnMargin: number; // Distancia mínima a cualquier célula al aparecer
+}
+
+export class VirusSystem {
+    private physicsEngine: PhysicsEngine;
+    private splitMergeSystem: SplitMergeSystem;
+    private random: SeededRandom;
+    private config: VirusConfig;
+    private worldWidth: number;
+    private worldHeight: number;
+
+    constructor(
+        physicsEngine: PhysicsEngine,
+        splitMergeSystem: SplitMergeSystem,
+        random: SeededRandom,
+        worldSize: { width: number; height: number },
+        config: Partial<VirusConfig> = {}
+    ) {
+        this.physicsEngine = physicsEngine;
+        this.splitMergeSystem = splitMergeSystem;
+        this.random = random;
+        this.worldWidth = worldSize.width;
+        this.worldHeight = worldSize.height;
+
+        const virusCount = config.virusCount ?? 10;
+        const virusMass = config.virusMass ?? 100;
+        this.config = {
+            virusCount,
+            maxViruses: virusCount * 2,
+            virusMass,
+            virusShootMass: virusMass * 2,
+            virusShootSpeed: 500,
+            spawnMargin: 60,
+            ...config
+        };
+    }
+
+    // Mantener el número de virus configurado (llamar en game loop)
+    update(): void {
+        const missing = this.config.virusCount - this.physicsEngine.getEntitiesByType('virus').length;
+
+        for (let i = 0; i < missing; i++) {
+            const position = {
+                x: this.random.range(0, this.worldWidth),
+                y: this.random.range(0, this.worldHeight)
+            };
+            const radius = PhysicsEngine.calculateRadius(this.config.virusMass);
+
+            // Reintentar en el próximo tick si la posición no es válida
+            const margin = radius + this.config.spawnMargin;
+            if (!this.physicsEngine.isInsideWorld(position, radius) || this.physicsEngine.isNearCell(position, margin)) {
+                continue;
+            }
+
+            this.spawnVirus(position);
+        }
+    }
+
+    // Una célula se comió un virus: absorbe su masa y explota
+    handleVirusEaten(cell: Entity, virus: Entity): void {
+        if (!this.physicsEngine.processEatingCollision(cell.id, virus.id)) return;
+        this.splitMergeSystem.explodeCell(cell.id);
+    }
+
+    // Un virus absorbió masa expulsada: crece y al llegar al límite dispara un virus nuevo
+    handleVirusFed(virus: Entity, ejected: Entity): void {
+        // El disparo sale en la dirección en que venía la masa
+        const feedDirection = this.physicsEngine.getDelta(ejected.position, virus.position);
+
+        if (!this.physicsEngine.processEatingCollision(virus.id, ejected.id)) return;
+
+        if (virus.mass >= this.config.virusShootMass) {
+            this.physicsEngine.updateEntityMass(virus.id, this.config.virusMass);
+            this.shootVirus(virus, feedDirection);
+        }
+    }
+
+    private shootVirus(source: Entity, direction: Vector2D): void {
+        if (this.physicsEngine.getEntitiesByType('virus').length >= this.config.maxViruses) return;
+
+        let magnitude = Math.sqrt(direction.x ** 2 + direction.y ** 2);
+        if (magnitude === 0) {
+            direction = { x: 0, y: -1 };
+            magnitude = 1;
+        }
+        const nx = direction.x / magnitude;
+        const ny = direction.y / magnitude;
+
+        const offset = source.radius * 2 + 2;
+        const virus = this.spawnVirus({
+            x: source.position.x + nx * offset,
+            y: source.position.y + ny * offset
+        });
+        virus.velocity.x = nx * this.config.virusShootSpeed;
+        virus.velocity.y = ny * this.config.virusShootSpeed;
+    }
+
+    private spawnVirus(position: Vector2D): Entity {
+        return this.physicsEngine.createEntity(
+            this.physicsEngine.generateId('virus'),
+            'virus',
+            this.config.virusMass,
+            position
+        );
+    }
+
+    getConfig(): VirusConfig {
+        return { ...this.config };
+    }
+}
@@ -0,0 +1,170 @@
+// Leaderboard en vivo para Agario Roles
+// Top N por masa total de cada dueño (todas sus células), con el jugador local resaltado
+// y, en modo equipos, la clasificación de equipos debajo. Se refresca a ritmo limitado
+import type { LeaderboardEntry } from '../engine/GameSimulation';
+import { TEAM_DEFINITIONS, type TeamId, type TeamScore } from '../engine/TeamSystem';
+
+export interface LeaderboardHUDConfig {
+    maxEntries: number; // Filas del top
+    updateInterval: number; // ms entre refrescos de los datos mostrados
+    width: number; // px
+}
+
+// Fila ya calculada para dibujar
+interface LeaderboardRow {
+    rank: number;
+    id: string;
+    mass: number;
+    color: string;
+    isLocal: boolean;
+}
+
+export class LeaderboardHUD {
+    private config: LeaderboardHUDConfig;
+    private rows: LeaderboardRow[] = [];
+    private localRow: LeaderboardRow | null = null; // Jugador local fuera del top
+    private teamScores: TeamScore[] = [];
+    private localTeamId?: TeamId;
+    private lastUpdate: number = -Infinity;
+
+    private static readonly ROW_HEIGHT = 20;
+    private static readonly HEADER_HEIGHT = 28;
+
+    constructor(config: Partial<LeaderboardHUDConfig> = {}) {
+        this.config = {
+            maxEntries: 10,
+            updateInterval: 500,
+            width: 200,
+            ...config
+        };
+    }
+
+    // Refrescar los datos si pasó updateInterval desde el último refresco (entries ya ordenadas por masa)
+    update(
+        entries: LeaderboardEntry[],
+        localPlayerId: string,
+        teamScores: TeamScore[] = [],
+        now: number = performance.now()
+    ): void {
+        if (now - this.lastUpdate < this.config.updateInterval) return;
+        this.lastUpdate = now;
+
+        const toRow = (entry: LeaderboardEntry, index: number): LeaderboardRow => ({
+            rank: index + 1,
+            id: entry.id,
+            mass: entry.mass,
+            color: this.getEntryColor(entry),
+            isLocal: entry.id === localPlayerId
+        });
+
+        this.rows = entries.slice(0, this.config.maxEntries).map(toRow);
+
+        const localIndex = entries.findIndex(entry => entry.id === localPlayerId);
+        this.localRow = localIndex >= this.config.maxEntries ? toRow(entries[localIndex], localIndex) : null;
+
+        this.teamScores = teamScores;
+        this.localTeamId = entries[localIndex]?.teamId;
+    }
+
+    // Forzar el refresco en la próxima llamada a update
+    invalidate(): void {
+        this.lastUpdate = -Infinity;
+    }
+
+    private getEntryColor(entry: LeaderboardEntry): string {
+        if (entry.teamId !== undefined) {
+            return TEAM_DEFINITIONS[entry.teamId].colors[0];
+        }
+        return entry.type === 'bot' ? '#ff6b6b' : '#4facfe';
+    }
+
+    // Dibujar el panel con su esquina superior derecha en (right, top)
+    render(ctx: CanvasRenderingContext2D, right: number, top: number): void {
+        if (this.rows.length === 0 && this.teamScores.length === 0) return;
+
+        const { width } = this.config;
+        const x = right - width;
+        let y = top;
+
+        ctx.save();
+
+        if (this.rows.length > 0) {
+            const extraRows = this.localRow ? 1.5 : 0;
+            this.renderPanel(ctx, x, y, 'Leaderboard', this.rows.length + extraRows);
+            y += LeaderboardHUD.HEADER_HEIGHT;
+
+            for (const row of this.rows) {
+                this.renderRow(ctx, x, y, row);
+                y += LeaderboardHUD.ROW_HEIGHT;
+            }
+
+            if (this.localRow) {
+                ctx.fillStyle = '#aaaaaa';
+                ctx.textAlign = 'center';
+                ctx.fillText('···', x + width / 2, y + 8);
+                y += LeaderboardHUD.ROW_HEIGHT / 2;
+                this.renderRow(ctx, x, y, this.localRow);
+                y += LeaderboardHUD.ROW_HEIGHT;
+            }
+
+            y += 8;
+        }
+
+        if (this.teamScores.length > 0) {
+            this.renderPanel(ctx, x, y, 'Equipos', this.teamScores.length);
+            y += LeaderboardHUD.HEADER_HEIGHT;
+
+            this.teamScores.forEach((score, index) => {
+                ctx.fillStyle = score.color;
+                ctx.fillRect(x + 10, y + 4, 10, 10);
+
+                ctx.fillStyle = score.teamId === this.localTeamId ? '#feca57' : '#ffffff';
+                ctx.textAlign = 'left';
+                ctx.fillText(`${index + 1}. ${score.name} (${score.alive}/${score.members})`, x + 28, y + 13);
+                ctx.textAlign = 'right';
+                ctx.fillText(`${score.mass.toFixed(0)} · ${score.kills}K`, x + width - 10, y + 13);
+                y += LeaderboardHUD.ROW_HEIGHT;
+            });
+        }
+
+        ctx.restore();
+    }
+
+    private renderPanel(ctx: CanvasRenderingContext2D, x: number, y: number, title: string, rowCount: number): void {
+        const { width } = this.config;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(x, y, width, LeaderboardHUD.HEADER_HEIGHT + rowCount * LeaderboardHUD.ROW_HEIGHT + 4);
+
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 13px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText(title, x + width / 2, y + 18);
+        ctx.font = '12px Arial';
+    }
+
+    private renderRow(ctx: CanvasRenderingContext2D, x: number, y: number, row: LeaderboardRow): void {
+        const { width } = this.config;
+
+        // Resaltar la fila del jugador local
+        if (row.isLocal) {
+            ctx.fillStyle = 'rgba(254, 202, 87, 0.2)';
+            ctx.fillRect(x + 4, y + 1, width - 8, LeaderboardHUD.ROW_HEIGHT - 2);
+        }
+
+        ctx.fillStyle = row.color;
+        ctx.beginPath();
+        ctx.arc(x + 15, y + 9, 5, 0, Math.PI * 2);
+        ctx.fill();
+
+        ctx.fillStyle = row.isLocal ? '#feca57' : '#ffffff';
+        ctx.textAlign = 'left';
+        ctx.fillText(`${row.rank}. ${row.id}`, x + 28, y + 13);
+        ctx.textAlign = 'right';
+        ctx.fillText(row.mass.toFixed(0), x + width - 10, y + 13);
+    }
+
+    getConfig(): LeaderboardHUDConfig {
+        return { ...this.config };
+    }
+}
@@ -0,0 +1,241 @@
+// Minimapa para Agario Roles
+// Muestra los límites del mundo, el rectángulo visible de la cámara, las células propias y de los
+// compañeros y, opcionalmente, enemigos grandes y power-ups. El fondo (borde y cuadrícula) se dibuja
+// una sola vez en un canvas aparte y se reutiliza cada frame. En un mundo toroidal todo se lleva al
+// rango del mundo y el viewport que cruza un borde se dibuja también por el lado opuesto
+import type { Entity, WorldTopology } from '../engine/PhysicsEngine';
+import { POWER_UP_DEFINITIONS, type PowerUpType } from '../engine/PowerUpSystem';
+import type { ScreenRect } from './MobileUI';
+
+export type MinimapCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface MinimapConfig {
+    enabled: boolean;
+    size: number; // px del lado mayor
+    corner: MinimapCorner;
+    margin: number; // px hasta el borde de la pantalla
+    opacity: number; // 0-1
+    showEnemies: boolean; // Marcar enemigos grandes
+    largeEnemyMass: number; // Masa a partir de la que un enemigo aparece en el minimapa
+    showPowerUps: boolean;
+}
+
+// Lo que el minimapa necesita saber del mundo en este frame
+export interface MinimapState {
+    worldWidth: number;
+    worldHeight: number;
+    topology: WorldTopology;
+    viewport: ScreenRect; // Zona visible de la cámara en coordenadas del mundo
+    entities: Entity[];
+    localPlayerId: string;
+    localTeamId?: string;
+}
+
+// Si la esquina configurada choca con otra UI, se prueban las demás en este orden
+const CORNER_ORDER: MinimapCorner[] = ['bottom-right', 'bottom-left', 'top-left', 'top-right'];
+
+export class Minimap {
+    private config: MinimapConfig;
+    private background: HTMLCanvasElement | null = null;
+    private backgroundKey: string = ''; // Parámetros con los que se generó el fondo
+
+    constructor(config: Partial<MinimapConfig> = {}) {
+        this.config = {
+            enabled: true,
+            size: 160,
+            corner: 'bottom-right',
+            margin: 10,
+            opacity: 0.85,
+            showEnemies: true,
+            largeEnemyMass: 200,
+            showPowerUps: true,
+            ...config
+        };
+    }
+
+    // Rectángulo en pantalla: primera esquina libre empezando por la configurada
+    getBounds(worldWidth: number, worldHeight: number, canvasWidth: number, canvasHeight: number, avoid: ScreenRect[] = []): ScreenRect {
+        const { size, margin, corner } = this.config;
+        const scale = size / Math.max(worldWidth, worldHeight);
+        const width = worldWidth * scale;
+        const height = worldHeight * scale;
+
+        const start = CORNER_ORDER.indexOf(corner);
+        const candidates = [...CORNER_ORDER.slice(start), ...CORNER_ORDER.slice(0, start)].map(candidate => ({
+            x: candidate.endsWith('left') ? margin : canvasWidth - width - margin,
+            y: candidate.startsWith('top') ? margin : canvasHeight - height - margin,
+            width,
+            height
+        }));
+
+        return candidates.find(rect => !avoid.some(other => Minimap.intersects(rect, other))) ?? candidates[0];
+    }
+
+    private static intersects(a: ScreenRect, b: ScreenRect): boolean {
+        return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+    }
+
+    render(ctx: CanvasRenderingContext2D, state: MinimapState, canvasWidth: number, canvasHeight: number, avoid: ScreenRect[] = []): void {
+        if (!this.config.enabled) return;
+
+        const bounds = this.getBounds(state.worldWidth, state.worldHeight, canvasWidth, canvasHeight, avoid);
+        const scale = bounds.width / state.worldWidth;
+
+        ctx.save();
+        ctx.globalAlpha = this.config.opacity;
+        ctx.drawImage(this.getBackground(state, bounds), bounds.x, bounds.y, bounds.width, bounds.height);
+
+        // Recortar al minimapa (el viewport y las células pueden salirse del mundo)
+        ctx.beginPath();
+        ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+        ctx.clip();
+
+        const wrap = state.topology === 'wrap';
+        const toMap = (x: number, y: number) => ({
+            x: bounds.x + (wrap ? Minimap.wrap(x, state.worldWidth) : x) * scale,
+            y: bounds.y + (wrap ? Minimap.wrap(y, state.worldHeight) : y) * scale
+        });
+
+        // Primero power-ups y enemigos, encima compañeros y las células propias
+        for (const entity of state.entities) {
+            if (entity.type === 'powerup' && this.config.showPowerUps) {
+                const point = toMap(entity.position.x, entity.position.y);
+                ctx.fillStyle = (POWER_UP_DEFINITIONS[entity.powerUp as PowerUpType] ?? POWER_UP_DEFINITIONS.speed).color;
+                ctx.fillRect(point.x - 2, point.y - 2, 4, 4);
+            }
+        }
+        this.renderCells(ctx, state, toMap, scale);
+
+        // Rectángulo de la cámara (en wrap, con sus copias desplazadas un mundo para cubrir el borde que cruza)
+        const viewport = toMap(state.viewport.x, state.viewport.y);
+        const offsets = wrap ? [0, -1] : [0];
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 1;
+        for (const i of offsets) {
+            for (const j of offsets) {
+                ctx.strokeRect(
+                    viewport.x + i * bounds.width,
+                    viewport.y + j * bounds.height,
+                    state.viewport.width * scale,
+                    state.viewport.height * scale
+                );
+            }
+        }
+
+        ctx.restore();
+    }
+
+    // Coordenada llevada a [0, size)
+    private static wrap(value: number, size: number): number {
+        return ((value % size) + size) % size;
+    }
+
+    private renderCells(
+        ctx: CanvasRenderingContext2D,
+        state: MinimapState,
+        toMap: (x: number, y: number) => { x: number; y: number },
+        scale: number
+    ): void {
+        const own: Entity[] = [];
+        const teammates: Entity[] = [];
+        const enemies: Entity[] = [];
+
+        for (const entity of state.entities) {
+            if (entity.type !== 'player' && entity.type !== 'bot') continue;
+
+            if (entity.ownerId === state.localPlayerId) {
+                own.push(entity);
+            } else if (state.localTeamId !== undefined && entity.teamId === state.localTeamId) {
+                teammates.push(entity);
+            } else if (this.config.showEnemies && entity.mass >= this.config.largeEnemyMass) {
+                enemies.push(entity);
+            }
+        }
+
+        const drawDots = (cells: Entity[], color: string, minRadius: number) => {
+            ctx.fillStyle = color;
+            for (const cell of cells) {
+                const point = toMap(cell.position.x, cell.position.y);
+                ctx.beginPath();
+                ctx.arc(point.x, point.y, Math.max(minRadius, cell.radius * scale), 0, Math.PI * 2);
+                ctx.fill();
+            }
+        };
+
+        drawDots(enemies, '#ff6b6b', 2);
+        drawDots(teammates, '#55efc4', 2);
+        drawDots(own, '#feca57', 3);
+    }
+
+    // Fondo cacheado: solo se regenera si cambia el mundo o el tamaño del minimapa
+    private getBackground(state: MinimapState, bounds: ScreenRect): HTMLCanvasElement {
+        const dpr = window.devicePixelRatio || 1;
+        const key = `${state.worldWidth}x${state.worldHeight}:${state.topology}:${bounds.width}x${bounds.height}@${dpr}`;
+        if (this.background && this.backgroundKey === key) {
+            return this.background;
+        }
+
+        const canvas = this.background ?? document.createElement('canvas');
+        canvas.width = Math.ceil(bounds.width * dpr);
+        canvas.height = Math.ceil(bounds.height * dpr);
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('No se pudo obtener el contexto 2D del minimapa');
+        }
+        ctx.scale(dpr, dpr);
+        const { width, height } = bounds;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, 0, width, height);
+
+        // Cuadrícula en cuartos del mundo
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = 1; i < 4; i++) {
+            ctx.moveTo(width * i / 4, 0);
+            ctx.lineTo(width * i / 4, height);
+            ctx.moveTo(0, height * i / 4);
+            ctx.lineTo(width, height * i / 4);
+        }
+        ctx.stroke();
+
+        // Límites del mundo con el mismo código de colores que renderWorldBorder
+        ctx.lineWidth = 2;
+        switch (state.topology) {
+            case 'walls':
+                ctx.strokeStyle = 'rgba(255, 99, 71, 0.8)';
+                ctx.strokeRect(1, 1, width - 2, height - 2);
+                break;
+            case 'wrap':
+                ctx.strokeStyle = 'rgba(0, 210, 211, 0.6)';
+                ctx.setLineDash([4, 3]);
+                ctx.strokeRect(1, 1, width - 2, height - 2);
+                ctx.setLineDash([]);
+                break;
+            case 'circle':
+                ctx.strokeStyle = 'rgba(255, 99, 71, 0.8)';
+                ctx.beginPath();
+                ctx.arc(width / 2, height / 2, Math.min(width, height) / 2 - 1, 0, Math.PI * 2);
+                ctx.stroke();
+                break;
+        }
+
+        this.background = canvas;
+        this.backgroundKey = key;
+        return canvas;
+    }
+
+    setEnabled(enabled: boolean): void {
+        this.config.enabled = enabled;
+    }
+
+    isEnabled(): boolean {
+        return this.config.enabled;
+    }
+
+    getConfig(): MinimapConfig {
+        return { ...this.config };
+    }
+}
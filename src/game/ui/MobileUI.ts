@@ -1,5 +1,6 @@
 // Sistema de UI móvil para Agario Roles
 // Joystick virtual y botones de habilidades
+import type { AbilitySlot, AbilitySlotState } from '../engine/AbilitySystem';
 
 export interface TouchPoint {
     id: number;
@@ -19,12 +20,24 @@ export interface JoystickState {
     angle: number;
 }
 
+// Rectángulo en coordenadas de pantalla (px CSS)
+export interface ScreenRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
 export interface MobileUICallbacks {
     onJoystickMove: (deltaX: number, deltaY: number) => void;
     onSplitPress: () => void;
+    onEjectPress: () => void;
+    onEjectRelease: () => void;
     onAbilityQ: () => void;
     onAbilityE: () => void;
     onAbilityR: () => void;
+    onPinch: (scale: number) => void; // Zoom con dos dedos: > 1 acerca, < 1 aleja
+    onScreenTap: () => void; // Toque corto fuera de los controles (p. ej. reaparecer)
 }
 
 export class MobileUI {
@@ -34,6 +47,10 @@ export class MobileUI {
     
     private joystick: JoystickState;
     private activeTouches: Map<number, TouchPoint> = new Map();
+    private freeTouches: Set<number> = new Set(); // Toques fuera del joystick y los botones (pellizco)
+    private pinchDistance: number | null = null;
+    private freeTouchStart: Map<number, number> = new Map(); // Inicio de cada toque libre (ms)
+    private pinched: boolean = false; // Hubo pellizco desde que empezaron los toques libres actuales
     
     // UI Elements
     private joystickRadius: number = 60;
@@ -41,12 +58,17 @@ export class MobileUI {
     private buttonRadius: number = 35;
     
     private splitButton: { x: number; y: number; pressed: boolean } = { x: 0, y: 0, pressed: false };
-    private qButton: { x: number; y: number; pressed: boolean; cooldown: number } = { x: 0, y: 0, pressed: false, cooldown: 0 };
-    private eButton: { x: number; y: number; pressed: boolean; cooldown: number } = { x: 0, y: 0, pressed: false, cooldown: 0 };
-    private rButton: { x: number; y: number; pressed: boolean; cooldown: number } = { x: 0, y: 0, pressed: false, cooldown: 0 };
+    private ejectButton: { x: number; y: number; pressed: boolean } = { x: 0, y: 0, pressed: false };
+    private ejectTouchId: number | null = null; // Toque que mantiene pulsado el botón de eject
+    private qButton: { x: number; y: number; pressed: boolean } = { x: 0, y: 0, pressed: false };
+    private eButton: { x: number; y: number; pressed: boolean } = { x: 0, y: 0, pressed: false };
+    private rButton: { x: number; y: number; pressed: boolean } = { x: 0, y: 0, pressed: false };
+    private abilityStates: Partial<Record<AbilitySlot, AbilitySlotState>> = {}; // Estado que manda la simulación
     
     private isVisible: boolean = false;
     
+    private static readonly TAP_MAX_DURATION = 300; // ms
+    
     constructor(canvas: HTMLCanvasElement, container: HTMLElement, callbacks: MobileUICallbacks) {
         this.canvas = canvas;
         this.container = container;
@@ -117,6 +139,10 @@ export class MobileUI {
         this.splitButton.x = width - rightMargin - this.buttonRadius;
         this.splitButton.y = height / 2;
         
+        // Eject button (debajo del split)
+        this.ejectButton.x = width - rightMargin - this.buttonRadius;
+        this.ejectButton.y = height / 2 + buttonSpacing;
+        
         // Botones de habilidades (arriba del split)
         this.qButton.x = width - rightMargin - this.buttonRadius - buttonSpacing * 0.8;
         this.qButton.y = height / 2 - buttonSpacing * 1.2;
@@ -138,8 +164,13 @@ export class MobileUI {
             const y = touch.clientY - rect.top;
             
             this.activeTouches.set(touch.identifier, { id: touch.identifier, x, y });
-            this.processTouchStart(x, y, touch.identifier);
+            if (!this.processTouchStart(x, y, touch.identifier)) {
+                if (this.freeTouches.size === 0) this.pinched = false;
+                this.freeTouches.add(touch.identifier);
+                this.freeTouchStart.set(touch.identifier, event.timeStamp);
+            }
         }
+        this.pinchDistance = this.getPinchDistance();
     }
 
     private handleTouchMove(event: TouchEvent): void {
@@ -156,6 +187,14 @@ export class MobileUI {
                 this.processTouchMove(x, y, touch.identifier);
             }
         }
+        
+        // Pellizco: variación de la distancia entre los dos toques libres
+        const distance = this.getPinchDistance();
+        if (distance !== null && this.pinchDistance !== null && this.pinchDistance > 0) {
+            this.callbacks.onPinch(distance / this.pinchDistance);
+            this.pinched = true;
+        }
+        this.pinchDistance = distance;
     }
 
     private handleTouchEnd(event: TouchEvent): void {
@@ -165,10 +204,27 @@ export class MobileUI {
             const touch = event.changedTouches[i];
             
             if (this.activeTouches.has(touch.identifier)) {
-                this.processTouchEnd(touch.identifier);
+                // Un toque libre no pulsó nada, así que no suelta nada; si fue corto y sin pellizco es un tap
+                if (this.freeTouches.delete(touch.identifier)) {
+                    const startedAt = this.freeTouchStart.get(touch.identifier) ?? event.timeStamp;
+                    this.freeTouchStart.delete(touch.identifier);
+                    if (!this.pinched && event.timeStamp - startedAt < MobileUI.TAP_MAX_DURATION) {
+                        this.callbacks.onScreenTap();
+                    }
+                } else {
+                    this.processTouchEnd(touch.identifier);
+                }
                 this.activeTouches.delete(touch.identifier);
             }
         }
+        this.pinchDistance = this.getPinchDistance();
+    }
+
+    // Distancia entre los dos primeros toques libres (null si no hay dos)
+    private getPinchDistance(): number | null {
+        const touches = [...this.freeTouches].map(id => this.activeTouches.get(id)).filter((t): t is TouchPoint => t !== undefined);
+        if (touches.length < 2) return null;
+        return Math.hypot(touches[0].x - touches[1].x, touches[0].y - touches[1].y);
     }
 
     // Mouse events para testing
@@ -200,7 +256,8 @@ export class MobileUI {
         this.processTouchEnd(-1);
     }
 
-    private processTouchStart(x: number, y: number, touchId: number): void {
+    // Devuelve si el toque cayó en el joystick o en un botón
+    private processTouchStart(x: number, y: number, touchId: number): boolean {
         // Verificar joystick
         const joystickDistance = Math.sqrt(
             (x - this.joystick.centerX) ** 2 + (y - this.joystick.centerY) ** 2
@@ -211,11 +268,11 @@ export class MobileUI {
             this.joystick.currentX = x;
             this.joystick.currentY = y;
             this.updateJoystickState();
-            return;
+            return true;
         }
         
         // Verificar botones
-        this.checkButtonPress(x, y);
+        return this.checkButtonPress(x, y, touchId);
     }
 
     private processTouchMove(x: number, y: number, touchId: number): void {
@@ -227,6 +284,13 @@ export class MobileUI {
     }
 
     private processTouchEnd(touchId: number): void {
+        // Soltar eject solo cuando termina el toque que lo mantenía
+        if (this.ejectTouchId === touchId) {
+            this.ejectTouchId = null;
+            this.ejectButton.pressed = false;
+            this.callbacks.onEjectRelease();
+        }
+        
         if (this.joystick.isActive) {
             this.joystick.isActive = false;
             this.joystick.deltaX = 0;
@@ -273,34 +337,44 @@ export class MobileUI {
         this.callbacks.onJoystickMove(this.joystick.deltaX, this.joystick.deltaY);
     }
 
-    private checkButtonPress(x: number, y: number): void {
+    private checkButtonPress(x: number, y: number, touchId: number): boolean {
         // Split button
         if (this.isPointInButton(x, y, this.splitButton.x, this.splitButton.y)) {
             this.splitButton.pressed = true;
             this.callbacks.onSplitPress();
-            return;
+            return true;
+        }
+        
+        // Eject button (mantener pulsado para repetir)
+        if (this.isPointInButton(x, y, this.ejectButton.x, this.ejectButton.y) && this.ejectTouchId === null) {
+            this.ejectButton.pressed = true;
+            this.ejectTouchId = touchId;
+            this.callbacks.onEjectPress();
+            return true;
         }
         
         // Q button
-        if (this.isPointInButton(x, y, this.qButton.x, this.qButton.y) && this.qButton.cooldown <= 0) {
+        if (this.isPointInButton(x, y, this.qButton.x, this.qButton.y) && !this.isOnCooldown('Q')) {
             this.qButton.pressed = true;
             this.callbacks.onAbilityQ();
-            return;
+            return true;
         }
         
         // E button
-        if (this.isPointInButton(x, y, this.eButton.x, this.eButton.y) && this.eButton.cooldown <= 0) {
+        if (this.isPointInButton(x, y, this.eButton.x, this.eButton.y) && !this.isOnCooldown('E')) {
             this.eButton.pressed = true;
             this.callbacks.onAbilityE();
-            return;
+            return true;
         }
         
         // R button
-        if (this.isPointInButton(x, y, this.rButton.x, this.rButton.y) && this.rButton.cooldown <= 0) {
+        if (this.isPointInButton(x, y, this.rButton.x, this.rButton.y) && !this.isOnCooldown('R')) {
             this.rButton.pressed = true;
             this.callbacks.onAbilityR();
-            return;
+            return true;
         }
+        
+        return false;
     }
 
     private isPointInButton(x: number, y: number, buttonX: number, buttonY: number): boolean {
@@ -359,6 +433,20 @@ export class MobileUI {
         ctx.textAlign = 'center';
         ctx.fillText('SPLIT', this.splitButton.x, this.splitButton.y + 4);
         
+        // Eject button
+        ctx.fillStyle = this.ejectButton.pressed ? 'rgba(123, 237, 159, 0.8)' : 'rgba(255, 255, 255, 0.3)';
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(this.ejectButton.x, this.ejectButton.y, this.buttonRadius * 0.8, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        
+        ctx.fillStyle = 'white';
+        ctx.font = 'bold 11px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText('EJECT', this.ejectButton.x, this.ejectButton.y + 4);
+        
         // Botón Q
         this.renderAbilityButton(ctx, this.qButton, 'Q');
         
@@ -369,14 +457,17 @@ export class MobileUI {
         this.renderAbilityButton(ctx, this.rButton, 'R', true);
     }
 
-    private renderAbilityButton(ctx: CanvasRenderingContext2D, button: any, label: string, isUltimate: boolean = false): void {
+    private renderAbilityButton(ctx: CanvasRenderingContext2D, button: any, label: AbilitySlot, isUltimate: boolean = false): void {
+        const state = this.abilityStates[label];
+        const cooldown = state ? state.cooldownRemaining : 0;
+        
         // Color base
         let fillColor = 'rgba(255, 255, 255, 0.3)';
         let strokeColor = 'rgba(255, 255, 255, 0.8)';
         
         if (button.pressed) {
             fillColor = 'rgba(74, 172, 255, 0.8)';
-        } else if (button.cooldown > 0) {
+        } else if (cooldown > 0) {
             fillColor = 'rgba(128, 128, 128, 0.5)';
             strokeColor = 'rgba(128, 128, 128, 0.8)';
         } else if (isUltimate) {
@@ -393,8 +484,8 @@ export class MobileUI {
         ctx.stroke();
         
         // Cooldown overlay
-        if (button.cooldown > 0) {
-            const cooldownAngle = (button.cooldown / 10000) * Math.PI * 2; // Asumiendo 10s max cooldown
+        if (state && cooldown > 0) {
+            const cooldownAngle = (cooldown / state.cooldownTotal) * Math.PI * 2;
             ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
             ctx.beginPath();
             ctx.moveTo(button.x, button.y);
@@ -404,7 +495,7 @@ export class MobileUI {
         }
         
         // Texto
-        ctx.fillStyle = button.cooldown > 0 ? 'rgba(255, 255, 255, 0.5)' : 'white';
+        ctx.fillStyle = cooldown > 0 ? 'rgba(255, 255, 255, 0.5)' : 'white';
         ctx.font = 'bold 14px Arial';
         ctx.textAlign = 'center';
         ctx.fillText(label, button.x, button.y + 4);
@@ -427,31 +518,36 @@ export class MobileUI {
         return this.isVisible;
     }
 
-    // Actualizar cooldowns (llamar desde game loop)
-    update(deltaTime: number): void {
-        if (this.qButton.cooldown > 0) {
-            this.qButton.cooldown = Math.max(0, this.qButton.cooldown - deltaTime);
-        }
-        if (this.eButton.cooldown > 0) {
-            this.eButton.cooldown = Math.max(0, this.eButton.cooldown - deltaTime);
-        }
-        if (this.rButton.cooldown > 0) {
-            this.rButton.cooldown = Math.max(0, this.rButton.cooldown - deltaTime);
-        }
+    // Zonas de pantalla que ocupan los controles táctiles (vacío si la UI no se muestra),
+    // para que el resto del HUD no se dibuje debajo
+    getOccupiedRegions(): ScreenRect[] {
+        if (!this.isVisible) return [];
+
+        const circleRect = (x: number, y: number, radius: number): ScreenRect => ({
+            x: x - radius,
+            y: y - radius,
+            width: radius * 2,
+            height: radius * 2
+        });
+        const buttons = [this.splitButton, this.ejectButton, this.qButton, this.eButton, this.rButton];
+
+        return [
+            circleRect(this.joystick.centerX, this.joystick.centerY, this.joystickRadius),
+            ...buttons.map(button => circleRect(button.x, button.y, this.buttonRadius))
+        ];
     }
 
-    // Establecer cooldowns
-    setAbilityCooldown(ability: 'Q' | 'E' | 'R', cooldownMs: number): void {
-        switch (ability) {
-            case 'Q':
-                this.qButton.cooldown = cooldownMs;
-                break;
-            case 'E':
-                this.eButton.cooldown = cooldownMs;
-                break;
-            case 'R':
-                this.rButton.cooldown = cooldownMs;
-                break;
-        }
+    isActive(): boolean {
+        return this.isVisible;
     }
-}
\ No newline at end of file
+
+    // Estado de las habilidades del jugador (cooldowns de la simulación, llamar cada frame)
+    setAbilityStates(states: Partial<Record<AbilitySlot, AbilitySlotState>>): void {
+        this.abilityStates = states;
+    }
+
+    private isOnCooldown(slot: AbilitySlot): boolean {
+        const state = this.abilityStates[slot];
+        return state !== undefined && state.cooldownRemaining > 0;
+    }
+}
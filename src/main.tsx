@@ -1,8 +1,55 @@
 // Agario Roles - FASE 1: Prototipo local
 import { GameEngine } from './game/engine/GameEngine';
+import { BotArena, type BotArenaOptions, type BotArenaReport } from './game/engine/BotArena';
+import { BOT_DIFFICULTY_PRESETS, type BotDifficulty } from './game/engine/BotSystem';
+import { isRoleId } from './game/engine/Roles';
+import { isGameMode } from './game/engine/GameModes';
+import type { MatchSummary } from './game/engine/MatchSystem';
+import { INPUT_ACTIONS, isInputAction, type InputBindings } from './game/engine/InputManager';
 
 console.log('🎮 Agario Roles FASE 1 - Prototipo local iniciando...');
 
+// Semilla opcional por URL (?seed=123) para reproducir una partida
+const urlParams = new URLSearchParams(window.location.search);
+const seedParam = urlParams.get('seed');
+
+// Topología opcional por URL (?world=walls|wrap|circle) para prototipar arenas
+const worldParam = urlParams.get('world');
+const WORLD_TOPOLOGIES = ['walls', 'wrap', 'circle'] as const;
+const worldTopology = WORLD_TOPOLOGIES.find(t => t === worldParam);
+
+// Número de bots opcional por URL (?bots=0 para jugar sin IA)
+const botsParam = urlParams.get('bots');
+
+// Dificultad de los bots opcional por URL (?difficulty=easy|normal|hard)
+const difficultyParam = urlParams.get('difficulty');
+const botDifficulty = (Object.keys(BOT_DIFFICULTY_PRESETS) as BotDifficulty[]).find(d => d === difficultyParam);
+
+// Rol del jugador por URL (?role=tank|assassin|support|controller); lo fija el selector de index.html
+const roleParam = urlParams.get('role');
+const playerRole = isRoleId(roleParam) ? roleParam : undefined;
+
+// Modo de juego por URL (?mode=teams|battle-royale|team-battle-royale&teams=3)
+// En equipos, ?bots= fija el resto de jugadores (3v3: ?bots=5)
+const modeParam = urlParams.get('mode');
+const gameMode = isGameMode(modeParam) ? modeParam : undefined;
+const teamsParam = urlParams.get('teams');
+
+// Duración de la partida por URL en segundos (?duration=180; 0: sin límite)
+const durationParam = urlParams.get('duration');
+const matchDuration = durationParam !== null && !isNaN(Number(durationParam)) && Number(durationParam) >= 0
+    ? (Number(durationParam) === 0 ? Infinity : Number(durationParam) * 1000)
+    : undefined;
+
+// Minimapa por URL (?minimap=off o la esquina: top-left|top-right|bottom-left|bottom-right)
+const minimapParam = urlParams.get('minimap');
+const MINIMAP_CORNERS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const;
+const minimapCorner = MINIMAP_CORNERS.find(c => c === minimapParam);
+const MINIMAP_CONFIG = {
+    ...(minimapParam === 'off' ? { enabled: false } : {}),
+    ...(minimapCorner ? { corner: minimapCorner } : {})
+};
+
 // Configuración del juego para FASE 1
 const GAME_CONFIG = {
     worldWidth: 2000,
@@ -10,7 +57,16 @@ const GAME_CONFIG = {
     playerStartMass: 100, // Para testing: debería dar v_max ≈ 69.7
     pelletMass: 5,
     maxPellets: 200,
-    targetFPS: 60
+    targetFPS: 60,
+    matchCountdown: 3000,
+    ...(seedParam !== null && !isNaN(Number(seedParam)) ? { seed: Number(seedParam) } : {}),
+    ...(worldTopology ? { worldTopology } : {}),
+    ...(botsParam !== null && !isNaN(Number(botsParam)) ? { botCount: Math.max(0, Math.floor(Number(botsParam))) } : {}),
+    ...(botDifficulty ? { botDifficulty } : {}),
+    ...(playerRole ? { playerRole } : {}),
+    ...(gameMode ? { gameMode } : {}),
+    ...(teamsParam !== null && !isNaN(Number(teamsParam)) ? { teamCount: Math.floor(Number(teamsParam)) } : {}),
+    ...(matchDuration !== undefined ? { matchDuration } : {})
 };
 
 // Aplicación principal del juego
@@ -78,11 +134,21 @@ class AgarioGameApp {
             throw new Error('Canvas no inicializado');
         }
 
-        this.gameEngine = new GameEngine(this.canvas, GAME_CONFIG);
+        this.gameEngine = new GameEngine(this.canvas, GAME_CONFIG, MINIMAP_CONFIG);
         console.log('⚙️ Motor de juego inicializado');
     }
 
     private setupUI(): void {
+        // Selector de rol: se aplica al aparecer, así que recarga la partida con ?role=
+        const roleSelect = document.getElementById('roleSelect') as HTMLSelectElement | null;
+        if (roleSelect) {
+            roleSelect.value = playerRole ?? 'basic';
+            roleSelect.addEventListener('change', () => {
+                urlParams.set('role', roleSelect.value);
+                window.location.search = urlParams.toString();
+            });
+        }
+
         // Debug toggle button
         const debugToggle = document.getElementById('debugToggle');
         if (debugToggle) {
@@ -135,6 +201,45 @@ class AgarioGameApp {
             this.gameEngine.toggleDebug();
         }
     }
+
+    // Resumen de la partida terminada, listo para enviar a POST /persist-match
+    public getMatchSummary(): MatchSummary | null {
+        const summary = this.gameEngine ? this.gameEngine.getMatchSummary() : null;
+        console.log(summary ? JSON.stringify(summary, null, 2) : '⏳ La partida todavía no ha terminado');
+        return summary;
+    }
+
+    // Reasignar una acción: la siguiente tecla, botón del ratón o del mando pasa a ser su binding
+    public rebind(action: string): void {
+        if (!isInputAction(action)) {
+            console.warn(`⚠️ Acción desconocida: ${action}. Acciones: ${INPUT_ACTIONS.join(', ')}`);
+            return;
+        }
+        if (this.gameEngine) {
+            this.gameEngine.getInputManager().startRebind(action);
+        }
+    }
+
+    public getBindings(): InputBindings | null {
+        const bindings = this.gameEngine ? this.gameEngine.getInputManager().getBindings() : null;
+        console.table(bindings);
+        return bindings;
+    }
+
+    public resetBindings(): void {
+        if (this.gameEngine) {
+            this.gameEngine.getInputManager().resetBindings();
+            console.log('⌨️ Controles restaurados');
+        }
+    }
+
+    // Arena headless de bots (no afecta a la partida en curso)
+    // Corre en el hilo principal y congela la pestaña mientras dura: para informes completos, `pnpm arena`
+    public runBotArena(options: Partial<BotArenaOptions> = {}): BotArenaReport {
+        const report = new BotArena(options).run();
+        console.log(JSON.stringify(report, null, 2));
+        return report;
+    }
 }
 
 // Inicializar cuando DOM esté listo
@@ -149,6 +254,10 @@ document.addEventListener('DOMContentLoaded', () => {
     console.log('  agarioApp.setPlayerMass(100) // Establecer masa=100 para verificar v_max≈69.7');
     console.log('  agarioApp.getGameStats()     // Obtener estadísticas del juego');
     console.log('  agarioApp.toggleDebug()     // Toggle debug overlay');
+    console.log('  agarioApp.runBotArena({ matches: 1 }) // Comparar perfiles de bots (JSON; completo: pnpm arena)');
+    console.log('  agarioApp.getMatchSummary() // Resumen de la partida (formato /persist-match)');
+    console.log("  agarioApp.rebind('split')   // Reasignar una acción (pulsa la nueva tecla o botón)");
+    console.log('  agarioApp.resetBindings()   // Restaurar los controles por defecto');
     console.log('🎯 CRITERIOS DE ACEPTACIÓN FASE 1:');
     console.log('  - Jugar 60s sin errores de consola');
     console.log('  - FPS ≥ 40 en desktop');
@@ -0,0 +1,63 @@
+// Habilidades: precondiciones de activación y avisos de casteo según el targeting
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhysicsEngine } from '../src/game/engine/PhysicsEngine';
+import { SplitMergeSystem } from '../src/game/engine/SplitMergeSystem';
+import { StatusEffectSystem } from '../src/game/engine/StatusEffectSystem';
+import { AbilitySystem } from '../src/game/engine/AbilitySystem';
+import { registerAbilities } from '../src/game/engine/Abilities';
+import { SimulationClock } from '../src/game/engine/Clock';
+
+function createSystems() {
+    const clock = new SimulationClock();
+    const physicsEngine = new PhysicsEngine();
+    const splitMergeSystem = new SplitMergeSystem(physicsEngine, clock);
+    const statusEffectSystem = new StatusEffectSystem(physicsEngine, splitMergeSystem, clock);
+    const abilitySystem = new AbilitySystem(physicsEngine, splitMergeSystem, statusEffectSystem, clock);
+    registerAbilities(abilitySystem);
+    return { clock, physicsEngine, splitMergeSystem, abilitySystem };
+}
+
+describe('AbilitySystem', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('la estocada no gasta cooldown si ninguna célula puede hacer split', () => {
+        const { clock, physicsEngine, splitMergeSystem, abilitySystem } = createSystems();
+        physicsEngine.createEntity('p', 'player', 400, { x: 1000, y: 1000 }, 'p');
+        abilitySystem.setLoadout('p', { Q: 'blink', E: 'lunge', R: 'shadow' });
+
+        // Split manual: la célula queda en cooldown de split
+        assert.ok(splitMergeSystem.performSplit('p', { x: 1, y: 0 }));
+        assert.equal(splitMergeSystem.getPlayerCells('p').some(cell => splitMergeSystem.canPlayerSplit(cell.id)), false);
+
+        assert.equal(abilitySystem.tryActivate('p', 'E', { x: 1, y: 0 }), false);
+        assert.equal(abilitySystem.getCooldownRemaining('p', 'E'), 0);
+
+        // Pasado el cooldown de split la estocada sí se usa
+        clock.advance(1000);
+        assert.equal(abilitySystem.tryActivate('p', 'E', { x: 1, y: 0 }), true);
+        assert.ok(abilitySystem.getCooldownRemaining('p', 'E') > 0);
+        assert.equal(splitMergeSystem.getPlayerCells('p').length, 4);
+    });
+
+    it('expone los casteos en curso con su targeting, alcance y progreso', () => {
+        const { clock, physicsEngine, abilitySystem } = createSystems();
+        physicsEngine.createEntity('p', 'player', 400, { x: 1000, y: 1000 }, 'p');
+        abilitySystem.setLoadout('p', { Q: 'dash', E: 'magnet', R: 'nova' });
+
+        assert.equal(abilitySystem.tryActivate('p', 'R', { x: 0, y: 1 }), true);
+        clock.advance(250);
+
+        const [cast] = abilitySystem.getActiveCasts();
+        assert.equal(cast.abilityId, 'nova');
+        assert.equal(cast.targeting, 'area');
+        assert.equal(cast.range, 300);
+        assert.equal(cast.progress, 0.5);
+
+        clock.advance(250);
+        abilitySystem.update();
+        assert.deepEqual(abilitySystem.getActiveCasts(), []);
+    });
+});
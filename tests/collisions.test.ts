@@ -0,0 +1,86 @@
+// Pase de colisiones: contactos eat / touch / merge-candidate y coste del broadphase
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhysicsEngine, type ContactEvent } from '../src/game/engine/PhysicsEngine';
+
+// Contactos emitidos en un pase, como "tipo:a>b" ordenados
+function collectContacts(physics: PhysicsEngine): string[] {
+    const contacts: string[] = [];
+    const record = (contact: ContactEvent) => contacts.push(contact.type === 'eat'
+        ? `eat:${contact.predator.id}>${contact.prey.id}`
+        : `${contact.type}:${[contact.a.id, contact.b.id].sort().join('>')}`);
+    physics.onContact('eat', record);
+    physics.onContact('touch', record);
+    physics.onContact('merge-candidate', record);
+    physics.processCollisions();
+    return contacts.sort();
+}
+
+describe('PhysicsEngine.processCollisions', () => {
+    it('emite eat cuando el centro de la presa está dentro de una célula bastante más grande', () => {
+        const physics = new PhysicsEngine();
+        physics.createEntity('big', 'player', 400, { x: 500, y: 500 }, 'big');
+        physics.createEntity('small', 'bot', 100, { x: 505, y: 500 }, 'small');
+        physics.createEntity('pellet', 'pellet', 5, { x: 510, y: 500 });
+
+        assert.deepEqual(collectContacts(physics), ['eat:big>pellet', 'eat:big>small', 'eat:small>pellet']);
+    });
+
+    it('emite touch entre células que se solapan sin poder comerse', () => {
+        const physics = new PhysicsEngine();
+        physics.createEntity('a', 'player', 100, { x: 500, y: 500 }, 'a');
+        physics.createEntity('b', 'bot', 110, { x: 508, y: 500 }, 'b');
+
+        assert.deepEqual(collectContacts(physics), ['touch:a>b']);
+    });
+
+    it('emite merge-candidate entre células del mismo dueño', () => {
+        const physics = new PhysicsEngine();
+        physics.createEntity('p', 'player', 400, { x: 500, y: 500 }, 'p');
+        physics.createEntity('p_split', 'player', 100, { x: 505, y: 500 }, 'p');
+
+        assert.deepEqual(collectContacts(physics), ['merge-candidate:p>p_split']);
+    });
+
+    it('no emite nada entre entidades que no se tocan', () => {
+        const physics = new PhysicsEngine();
+        physics.createEntity('a', 'player', 100, { x: 100, y: 100 }, 'a');
+        physics.createEntity('b', 'bot', 100, { x: 1900, y: 1900 }, 'b');
+
+        assert.deepEqual(collectContacts(physics), []);
+        assert.equal(physics.getCollisionStats().candidatePairs, 0);
+    });
+
+    it('el coste del broadphase depende de la densidad local, no de los pellets del mundo', () => {
+        const physics = new PhysicsEngine({ worldWidth: 10000, worldHeight: 10000 });
+        physics.createEntity('cell', 'player', 100, { x: 5000, y: 5000 }, 'cell');
+        for (let i = 0; i < 2000; i++) {
+            // Pellets repartidos lejos de la célula
+            physics.createEntity(`pellet_${i}`, 'pellet', 5, { x: 100 + (i % 50) * 80, y: 100 + Math.floor(i / 50) * 80 });
+        }
+
+        physics.processCollisions();
+        assert.equal(physics.getCollisionStats().candidatePairs, 0);
+    });
+
+    it('en un mundo toroidal las células se comen y se tocan a través del borde', () => {
+        const physics = new PhysicsEngine({ worldTopology: 'wrap' });
+        physics.createEntity('big', 'player', 400, { x: 1995, y: 1000 }, 'big');
+        physics.createEntity('prey', 'bot', 100, { x: 3, y: 1000 }, 'prey');
+        physics.createEntity('a', 'player', 100, { x: 1000, y: 1997 }, 'a');
+        physics.createEntity('b', 'bot', 110, { x: 1000, y: 2 }, 'b');
+
+        assert.deepEqual(collectContacts(physics), ['eat:big>prey', 'touch:a>b']);
+        assert.ok(physics.getSpatialGrid().queryArea(1990, 990, 2010, 1010).includes('prey'));
+    });
+
+    it('en un mundo toroidal una célula que sale por un borde entra por el opuesto', () => {
+        const physics = new PhysicsEngine({ worldTopology: 'wrap' });
+        const cell = physics.createEntity('p', 'player', 100, { x: 1999, y: 1000 }, 'p');
+        cell.velocity.x = 300;
+
+        physics.update(1000 / 60);
+        assert.ok(cell.position.x >= 0 && cell.position.x < 100, `x ${cell.position.x}`);
+        assert.equal(cell.position.y, 1000);
+    });
+});
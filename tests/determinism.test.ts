@@ -0,0 +1,81 @@
+// Determinismo de la simulación: misma semilla + mismos comandos → snapshots idénticos
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameSimulation, type GameConfig, type SimulationSnapshot } from '../src/game/engine/GameSimulation';
+import { SeededRandom } from '../src/game/engine/Random';
+import { BotArena } from '../src/game/engine/BotArena';
+
+const TICKS = 900; // 15 s a 60 ticks/s
+const SNAPSHOT_EVERY = 150;
+
+// Partida con el jugador local y bots; los comandos salen de un guion con su propia semilla
+function runScriptedMatch(config: Partial<GameConfig>, scriptSeed: number): SimulationSnapshot[] {
+    const simulation = new GameSimulation({ botCount: 6, ...config });
+    simulation.addPlayer('player', 'player', simulation.findSpawnPosition(), 'assassin');
+
+    const script = new SeededRandom(scriptSeed);
+    const deltaTime = 1000 / simulation.getConfig().targetFPS;
+    const snapshots: SimulationSnapshot[] = [];
+
+    for (let tick = 0; tick < TICKS; tick++) {
+        if (tick % 20 === 0) {
+            const angle = script.range(0, Math.PI * 2);
+            simulation.queueCommand('player', { type: 'move', direction: { x: Math.cos(angle), y: Math.sin(angle) } });
+        }
+        if (tick % 200 === 100) simulation.queueCommand('player', { type: 'split' });
+        if (tick % 300 === 150) simulation.queueCommand('player', { type: 'ability', slot: 'Q' });
+        if (tick % 90 === 45) simulation.queueCommand('player', { type: 'eject', active: script.next() < 0.5 });
+
+        simulation.step(deltaTime);
+        if ((tick + 1) % SNAPSHOT_EVERY === 0) {
+            snapshots.push(simulation.getSnapshot());
+        }
+    }
+    return snapshots;
+}
+
+describe('GameSimulation', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('produce snapshots idénticos con la misma semilla y los mismos comandos', () => {
+        const a = runScriptedMatch({ seed: 42 }, 7);
+        const b = runScriptedMatch({ seed: 42 }, 7);
+
+        assert.equal(a.length, TICKS / SNAPSHOT_EVERY);
+        for (let i = 0; i < a.length; i++) {
+            assert.deepEqual(b[i], a[i], `snapshot ${i} (tick ${a[i].tick}) distinto`);
+        }
+    });
+
+    it('es determinista en todos los modos y topologías', () => {
+        const variants: Partial<GameConfig>[] = [
+            { gameMode: 'teams' },
+            { gameMode: 'battle-royale' },
+            { worldTopology: 'circle' }
+        ];
+        for (const variant of variants) {
+            const a = runScriptedMatch({ seed: 3, ...variant }, 11);
+            const b = runScriptedMatch({ seed: 3, ...variant }, 11);
+            assert.deepEqual(b, a, `${JSON.stringify(variant)} no es determinista`);
+        }
+    });
+
+    it('diverge con otra semilla', () => {
+        const a = runScriptedMatch({ seed: 42 }, 7);
+        const b = runScriptedMatch({ seed: 43 }, 7);
+        assert.notDeepEqual(b.at(-1), a.at(-1));
+    });
+});
+
+describe('BotArena', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('da el mismo informe con la misma semilla', () => {
+        const options = { matches: 2, matchDuration: 20000, seed: 5 };
+        assert.deepEqual(new BotArena(options).run(), new BotArena(options).run());
+    });
+});
@@ -0,0 +1,48 @@
+// Decaimiento pasivo de masa: proporcional a la masa sobre el umbral, nunca por debajo de él
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhysicsEngine } from '../src/game/engine/PhysicsEngine';
+
+const DELTA_TIME = 1000 / 60;
+
+function simulate(physicsEngine: PhysicsEngine, seconds: number): void {
+    for (let tick = 0; tick < seconds * 60; tick++) {
+        physicsEngine.update(DELTA_TIME);
+    }
+}
+
+describe('Decaimiento de masa', () => {
+    it('pierde massDecayRate de la masa sobre el umbral por segundo', () => {
+        const physicsEngine = new PhysicsEngine({ massDecayThreshold: 500, massDecayRate: 0.005 });
+        assert.equal(physicsEngine.getMassDecayPerSecond(1500), 5);
+
+        const cell = physicsEngine.createEntity('p', 'player', 1500, { x: 1000, y: 1000 }, 'p');
+        physicsEngine.update(1000);
+        assert.equal(cell.mass, 1495);
+    });
+
+    it('la pérdida no depende de la duración del tick', () => {
+        const coarse = new PhysicsEngine();
+        const fine = new PhysicsEngine();
+        const a = coarse.createEntity('p', 'player', 3000, { x: 1000, y: 1000 }, 'p');
+        const b = fine.createEntity('p', 'player', 3000, { x: 1000, y: 1000 }, 'p');
+
+        for (let i = 0; i < 10; i++) coarse.update(100);
+        simulate(fine, 1);
+        assert.ok(Math.abs(a.mass - b.mass) < 0.1, `${a.mass} vs ${b.mass}`);
+        assert.ok(b.mass < 3000);
+    });
+
+    it('nunca baja del umbral y no afecta a las células por debajo ni a la comida', () => {
+        const physicsEngine = new PhysicsEngine({ massDecayThreshold: 500, massDecayRate: 0.05 });
+        const big = physicsEngine.createEntity('big', 'player', 520, { x: 500, y: 500 }, 'big');
+        const small = physicsEngine.createEntity('small', 'bot', 300, { x: 1500, y: 1500 }, 'small');
+        const pellet = physicsEngine.createEntity('pellet', 'pellet', 1000, { x: 1500, y: 500 });
+
+        simulate(physicsEngine, 120);
+        assert.ok(big.mass >= 500, `masa ${big.mass}`);
+        assert.ok(big.mass < 501);
+        assert.equal(small.mass, 300);
+        assert.equal(pellet.mass, 1000);
+    });
+});
@@ -0,0 +1,77 @@
+// Resumen de fin de partida: misma forma que el body de POST /persist-match (backend/src/server.js)
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameSimulation, type GameConfig } from '../src/game/engine/GameSimulation';
+import type { MatchSummary } from '../src/game/engine/MatchSystem';
+
+const DELTA_TIME = 1000 / 60;
+
+function playMatch(config: Partial<GameConfig>): MatchSummary {
+    const simulation = new GameSimulation({ botCount: 4, matchDuration: 3000, ...config });
+    simulation.addPlayer('player', 'player', simulation.findSpawnPosition(), 'tank');
+
+    for (let tick = 0; tick < 600 && !simulation.getMatchSystem().getSummary(); tick++) {
+        simulation.queueCommand('player', { type: 'move', direction: { x: 1, y: 0 } });
+        simulation.step(DELTA_TIME);
+    }
+
+    const summary = simulation.getMatchSystem().getSummary();
+    assert.ok(summary, 'la partida no terminó');
+    return summary;
+}
+
+// Lo que valida /persist-match y lo que lee saveMatchResult (backend/src/persistence.js), tras pasar por JSON
+function assertPersistable(summary: MatchSummary): void {
+    const body = JSON.parse(JSON.stringify(summary));
+
+    assert.equal(typeof body.roomId, 'string');
+    assert.ok(body.roomId.length > 0);
+    assert.equal(typeof body.duration, 'number');
+    assert.ok(body.duration > 0, 'duration 0 lo rechaza el backend');
+    assert.ok(Array.isArray(body.players));
+    assert.ok(body.players.length > 0);
+
+    for (const player of body.players) {
+        assert.equal(typeof player.id, 'string');
+        assert.ok(Number.isFinite(player.mass), `${player.id}: mass ${player.mass}`);
+        assert.ok(Number.isFinite(player.score), `${player.id}: score ${player.score}`);
+    }
+    if (body.winnerId !== undefined) {
+        assert.ok(body.players.some((player: { id: string }) => player.id === body.winnerId));
+    }
+
+    assert.equal(typeof body.metadata, 'object');
+    assert.equal(typeof body.metadata.mode, 'string');
+    assert.equal(typeof body.metadata.seed, 'number');
+    assert.equal(typeof body.metadata.endReason, 'string');
+}
+
+describe('Resumen de partida', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('al acabar el tiempo el resumen tiene la forma de /persist-match', () => {
+        const summary = playMatch({ seed: 5 });
+        assertPersistable(summary);
+
+        assert.equal(summary.duration, 3);
+        assert.equal(summary.metadata.mode, 'ffa');
+        assert.equal(summary.metadata.seed, 5);
+        assert.equal(summary.metadata.endReason, 'time');
+        assert.deepEqual(summary.players.map(player => player.rank), summary.players.map((_, index) => index + 1));
+        assert.ok(summary.players.some(player => player.id === 'player'));
+    });
+
+    it('en modo equipos añade el equipo ganador y la puntuación por equipo', () => {
+        const summary = playMatch({ seed: 5, gameMode: 'teams' });
+        assertPersistable(summary);
+
+        const teamScores = summary.metadata.teamScores ?? [];
+        assert.ok(teamScores.length >= 2);
+        assert.equal(summary.metadata.winnerTeamId, teamScores[0].teamId);
+        for (const player of summary.players) {
+            assert.ok(player.teamId !== undefined, `${player.id} sin equipo`);
+        }
+    });
+});
@@ -0,0 +1,120 @@
+// Reaparición por comando y búsqueda de posición de aparición
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameSimulation, type GameConfig } from '../src/game/engine/GameSimulation';
+import { PhysicsEngine } from '../src/game/engine/PhysicsEngine';
+
+const DELTA_TIME = 1000 / 60;
+
+function killPlayer(simulation: GameSimulation, playerId: string): void {
+    for (const cell of simulation.getPlayerCells(playerId)) {
+        simulation.eliminateCell(cell.id, 'zone');
+    }
+}
+
+// Jugador que muere en el tick 60 y pide reaparecer en el 90
+function runRespawnScript(config: Partial<GameConfig>): GameSimulation {
+    const simulation = new GameSimulation({ botCount: 4, ...config });
+    simulation.addPlayer('player', 'player', simulation.findSpawnPosition(), 'tank');
+
+    for (let tick = 0; tick < 180; tick++) {
+        if (tick === 60) killPlayer(simulation, 'player');
+        if (tick === 90) simulation.queueCommand('player', { type: 'respawn' });
+        simulation.step(DELTA_TIME);
+    }
+    return simulation;
+}
+
+describe('Reaparición', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('el comando respawn revive al jugador con su rol y equipo', () => {
+        const simulation = new GameSimulation({ seed: 1, gameMode: 'teams', botCount: 3 });
+        simulation.addPlayer('player', 'player', simulation.findSpawnPosition(), 'tank');
+        const teamId = simulation.getPlayerTeam('player');
+
+        killPlayer(simulation, 'player');
+        assert.equal(simulation.isPlayerAlive('player'), false);
+        assert.equal(simulation.canRespawn('player'), true);
+
+        simulation.queueCommand('player', { type: 'respawn' });
+        simulation.step(DELTA_TIME);
+
+        assert.equal(simulation.isPlayerAlive('player'), true);
+        assert.equal(simulation.getPlayerRole('player'), 'tank');
+        assert.equal(simulation.getPlayerTeam('player'), teamId);
+        assert.equal(simulation.getPlayerCells('player').length, 1);
+    });
+
+    it('los bots reaparecen con su rol y equipo', () => {
+        const simulation = new GameSimulation({ seed: 2, gameMode: 'teams', botCount: 4, botRespawnDelay: 500 });
+        const botIds = simulation.getMassLeaderboard().map(entry => entry.id);
+        const before = botIds.map(id => ({ role: simulation.getPlayerRole(id), team: simulation.getPlayerTeam(id) }));
+
+        for (const id of botIds) killPlayer(simulation, id);
+        for (let tick = 0; tick < 60; tick++) simulation.step(DELTA_TIME);
+
+        for (const [index, id] of botIds.entries()) {
+            assert.equal(simulation.isPlayerAlive(id), true, `${id} no reapareció`);
+            assert.deepEqual({ role: simulation.getPlayerRole(id), team: simulation.getPlayerTeam(id) }, before[index]);
+        }
+    });
+
+    it('no reaparece en modos sin reaparición', () => {
+        const simulation = runRespawnScript({ seed: 1, gameMode: 'battle-royale' });
+        assert.equal(simulation.isPlayerAlive('player'), false);
+        assert.equal(simulation.canRespawn('player'), false);
+    });
+
+    it('es determinista: misma semilla y mismos comandos → mismo estado', () => {
+        const a = runRespawnScript({ seed: 9 });
+        const b = runRespawnScript({ seed: 9 });
+        assert.equal(a.isPlayerAlive('player'), true);
+        assert.deepEqual(b.getSnapshot(), a.getSnapshot());
+    });
+});
+
+describe('findSpawnPosition', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('en una arena llena devuelve la mejor posición válida, nunca fuera del mundo', () => {
+        const simulation = new GameSimulation({
+            seed: 4,
+            worldTopology: 'circle',
+            botCount: 0,
+            virusCount: 0,
+            maxPellets: 0,
+            maxPowerUps: 0
+        });
+        const physicsEngine = simulation.getPhysicsEngine();
+
+        // Células cada 150px: ningún punto queda a la distancia de seguridad de todas
+        for (let x = 75; x < 2000; x += 150) {
+            for (let y = 75; y < 2000; y += 150) {
+                physicsEngine.createEntity(`blocker_${x}_${y}`, 'bot', 2000, { x, y }, `blocker_${x}_${y}`);
+            }
+        }
+
+        const radius = PhysicsEngine.calculateRadius(simulation.getConfig().playerStartMass);
+        for (let i = 0; i < 100; i++) {
+            const position = simulation.findSpawnPosition();
+            assert.ok(physicsEngine.isInsideWorld(position, radius), `(${position.x}, ${position.y}) fuera de la arena`);
+
+            const overlapping = physicsEngine.getAllEntities().some(cell => {
+                const dx = cell.position.x - position.x;
+                const dy = cell.position.y - position.y;
+                return Math.sqrt(dx * dx + dy * dy) < cell.radius + radius;
+            });
+            assert.equal(overlapping, false, `(${position.x}, ${position.y}) encima de una célula`);
+        }
+    });
+
+    it('sin ningún intento dentro de la arena usa el centro del mundo', () => {
+        const simulation = new GameSimulation({ seed: 4, worldTopology: 'circle', botCount: 0 });
+        assert.deepEqual(simulation.findSpawnPosition(150, 0), { x: 1000, y: 1000 });
+    });
+});
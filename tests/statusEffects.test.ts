@@ -0,0 +1,85 @@
+// Efectos de estado: herencia en split o explosión y desbloqueo temporal del merge
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhysicsEngine } from '../src/game/engine/PhysicsEngine';
+import { SplitMergeSystem } from '../src/game/engine/SplitMergeSystem';
+import { StatusEffectSystem } from '../src/game/engine/StatusEffectSystem';
+import { SimulationClock } from '../src/game/engine/Clock';
+
+function createSystems() {
+    const clock = new SimulationClock();
+    const physicsEngine = new PhysicsEngine();
+    const splitMergeSystem = new SplitMergeSystem(physicsEngine, clock);
+    const statusEffectSystem = new StatusEffectSystem(physicsEngine, splitMergeSystem, clock);
+    return { clock, physicsEngine, splitMergeSystem, statusEffectSystem };
+}
+
+describe('StatusEffectSystem', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('copia los efectos a la mitad nueva de un split con la duración restante', () => {
+        const { clock, physicsEngine, splitMergeSystem, statusEffectSystem } = createSystems();
+        physicsEngine.createEntity('p', 'player', 400, { x: 1000, y: 1000 }, 'p');
+        statusEffectSystem.apply('p', 'stealth');
+        statusEffectSystem.apply('p', 'slow');
+        statusEffectSystem.apply('p', 'slow');
+
+        clock.advance(1000);
+        assert.ok(splitMergeSystem.performSplit('p', { x: 1, y: 0 }));
+
+        const [child] = splitMergeSystem.getPlayerCells('p').filter(cell => cell.id !== 'p');
+        assert.deepEqual(statusEffectSystem.getEffects(child.id), statusEffectSystem.getEffects('p'));
+        assert.equal(statusEffectSystem.isVisibleTo(child, 'enemy'), false);
+
+        // Los efectos copiados caducan a la vez que los de la madre
+        clock.advance(3000);
+        statusEffectSystem.update();
+        assert.deepEqual(statusEffectSystem.getEffectTypes(child.id), []);
+        assert.deepEqual(statusEffectSystem.getEffectTypes('p'), []);
+    });
+
+    it('copia los efectos a todos los trozos de una explosión', () => {
+        const { physicsEngine, splitMergeSystem, statusEffectSystem } = createSystems();
+        physicsEngine.createEntity('p', 'player', 400, { x: 1000, y: 1000 }, 'p');
+        statusEffectSystem.apply('p', 'shield');
+
+        const pieces = splitMergeSystem.explodeCell('p');
+        assert.ok(pieces > 0);
+        for (const cell of splitMergeSystem.getPlayerCells('p')) {
+            assert.equal(statusEffectSystem.isInedible(cell.id), true, `${cell.id} sin escudo`);
+        }
+    });
+
+    it('las copias son independientes de los efectos de la madre', () => {
+        const { physicsEngine, splitMergeSystem, statusEffectSystem } = createSystems();
+        physicsEngine.createEntity('p', 'player', 400, { x: 1000, y: 1000 }, 'p');
+        statusEffectSystem.apply('p', 'haste');
+        splitMergeSystem.performSplit('p', { x: 1, y: 0 });
+
+        statusEffectSystem.remove('p', 'haste');
+        const [child] = splitMergeSystem.getPlayerCells('p').filter(cell => cell.id !== 'p');
+        assert.deepEqual(statusEffectSystem.getEffectTypes(child.id), ['haste']);
+    });
+
+    it('fusión solo desbloquea el merge mientras dura el efecto', () => {
+        const { clock, physicsEngine, splitMergeSystem, statusEffectSystem } = createSystems();
+        physicsEngine.createEntity('p', 'player', 400, { x: 1000, y: 1000 }, 'p');
+        splitMergeSystem.performSplit('p', { x: 1, y: 0 });
+        const [child] = splitMergeSystem.getPlayerCells('p').filter(cell => cell.id !== 'p');
+        assert.equal(splitMergeSystem.canMerge('p'), false);
+
+        statusEffectSystem.applyToOwner('p', 'merge', { duration: 2000 });
+        statusEffectSystem.update();
+        assert.equal(splitMergeSystem.canMerge('p'), true);
+        assert.equal(splitMergeSystem.canMerge(child.id), true);
+
+        // Al caducar vuelve el bloqueo que quedaba de mergeTime
+        clock.advance(2000);
+        statusEffectSystem.update();
+        assert.deepEqual(statusEffectSystem.getEffectTypes('p'), []);
+        assert.equal(splitMergeSystem.canMerge('p'), false);
+        assert.equal(splitMergeSystem.canMerge(child.id), false);
+    });
+});
@@ -0,0 +1,83 @@
+// Equipos: los compañeros no se comen y el equipo se conserva al reaparecer
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameSimulation } from '../src/game/engine/GameSimulation';
+import { PhysicsEngine } from '../src/game/engine/PhysicsEngine';
+import { TeamSystem } from '../src/game/engine/TeamSystem';
+
+const DELTA_TIME = 1000 / 60;
+
+function killPlayer(simulation: GameSimulation, playerId: string): void {
+    for (const cell of simulation.getPlayerCells(playerId)) {
+        simulation.eliminateCell(cell.id, 'zone');
+    }
+}
+
+describe('TeamSystem', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('los compañeros se tocan pero no se comen; los rivales sí', () => {
+        const physicsEngine = new PhysicsEngine();
+        const teamSystem = new TeamSystem(physicsEngine);
+        const big = physicsEngine.createEntity('big', 'player', 400, { x: 500, y: 500 }, 'big');
+        const mate = physicsEngine.createEntity('mate', 'bot', 100, { x: 505, y: 500 }, 'mate');
+        const rival = physicsEngine.createEntity('rival', 'bot', 100, { x: 495, y: 500 }, 'rival');
+        teamSystem.assignPlayer('big', 'red');
+        teamSystem.assignPlayer('mate', 'red');
+        teamSystem.assignPlayer('rival', 'blue');
+
+        assert.equal(physicsEngine.canEat(big, mate), false);
+        assert.equal(physicsEngine.canEat(big, rival), true);
+
+        const touches: string[] = [];
+        physicsEngine.onContact('touch', ({ a, b }) => touches.push([a.id, b.id].sort().join('>')));
+        physicsEngine.processCollisions();
+        assert.ok(touches.includes('big>mate'));
+    });
+
+    it('reparte a los jugadores nuevos en el equipo con menos miembros', () => {
+        const physicsEngine = new PhysicsEngine();
+        const teamSystem = new TeamSystem(physicsEngine, { teamCount: 2 });
+        for (const id of ['a', 'b', 'c', 'd']) {
+            physicsEngine.createEntity(id, 'bot', 100, { x: 500, y: 500 }, id);
+            teamSystem.assignPlayer(id);
+        }
+
+        assert.equal(teamSystem.getTeamMembers('red').length, 2);
+        assert.equal(teamSystem.getTeamMembers('blue').length, 2);
+    });
+
+    it('en la simulación los compañeros solapados sobreviven y el rival es comido', () => {
+        const simulation = new GameSimulation({ seed: 3, gameMode: 'teams', botCount: 0, virusCount: 0, maxPowerUps: 0 });
+        simulation.addPlayer('big', 'player', { x: 1000, y: 1000 }, 'basic', 'red');
+        simulation.addPlayer('mate', 'bot', { x: 1005, y: 1000 }, 'basic', 'red');
+        simulation.addPlayer('rival', 'bot', { x: 995, y: 1000 }, 'basic', 'blue');
+        simulation.getPhysicsEngine().updateEntityMass('big', 400);
+
+        for (let tick = 0; tick < 10; tick++) simulation.step(DELTA_TIME);
+
+        assert.equal(simulation.isPlayerAlive('mate'), true);
+        assert.equal(simulation.isPlayerAlive('rival'), false);
+    });
+
+    it('reaparecer no cambia el equipo aunque el reparto quede desequilibrado', () => {
+        const simulation = new GameSimulation({ seed: 3, gameMode: 'teams', botCount: 0 });
+        simulation.addPlayer('a', 'player', simulation.findSpawnPosition(), 'basic', 'red');
+        simulation.addPlayer('b', 'bot', simulation.findSpawnPosition(), 'basic', 'red');
+        simulation.addPlayer('c', 'bot', simulation.findSpawnPosition(), 'basic', 'red');
+
+        for (let life = 0; life < 3; life++) {
+            killPlayer(simulation, 'a');
+            simulation.queueCommand('a', { type: 'respawn' });
+            simulation.step(DELTA_TIME);
+
+            assert.equal(simulation.isPlayerAlive('a'), true);
+            assert.equal(simulation.getPlayerTeam('a'), 'red');
+            for (const cell of simulation.getPlayerCells('a')) {
+                assert.equal(cell.teamId, 'red');
+            }
+        }
+    });
+});
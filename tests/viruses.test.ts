@@ -0,0 +1,105 @@
+// Virus: alimentarlos con masa expulsada dispara virus nuevos y comérselos hace explotar la célula
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhysicsEngine, type Entity } from '../src/game/engine/PhysicsEngine';
+import { SplitMergeSystem, type SplitConfig } from '../src/game/engine/SplitMergeSystem';
+import { VirusSystem, type VirusConfig } from '../src/game/engine/VirusSystem';
+import { SeededRandom } from '../src/game/engine/Random';
+import { SimulationClock } from '../src/game/engine/Clock';
+
+function createSystems(virusConfig: Partial<VirusConfig> = {}, splitConfig: Partial<SplitConfig> = {}) {
+    const clock = new SimulationClock();
+    const physicsEngine = new PhysicsEngine();
+    const splitMergeSystem = new SplitMergeSystem(physicsEngine, clock, splitConfig);
+    const virusSystem = new VirusSystem(
+        physicsEngine,
+        splitMergeSystem,
+        new SeededRandom(1),
+        { width: 2000, height: 2000 },
+        { virusCount: 0, maxViruses: 10, ...virusConfig }
+    );
+    return { physicsEngine, splitMergeSystem, virusSystem };
+}
+
+// Expulsar masa contra el virus desde su izquierda
+function feed(physicsEngine: PhysicsEngine, virusSystem: VirusSystem, virus: Entity, times: number): void {
+    for (let i = 0; i < times; i++) {
+        const position = { x: virus.position.x - virus.radius / 2, y: virus.position.y };
+        const ejected = physicsEngine.createEntity(`ejected_${i}`, 'ejected', 20, position);
+        virusSystem.handleVirusFed(virus, ejected);
+    }
+}
+
+describe('VirusSystem', () => {
+    before(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    it('un virus alimentado crece y al llegar a virusShootMass dispara otro en la dirección de la masa', () => {
+        const { physicsEngine, virusSystem } = createSystems({ virusMass: 100, virusShootMass: 200 });
+        const virus = physicsEngine.createEntity('virus', 'virus', 100, { x: 1000, y: 1000 });
+
+        feed(physicsEngine, virusSystem, virus, 4);
+        assert.equal(virus.mass, 180);
+        assert.equal(physicsEngine.getEntitiesByType('virus').length, 1);
+        assert.equal(physicsEngine.getEntitiesByType('ejected').length, 0);
+
+        feed(physicsEngine, virusSystem, virus, 1);
+        assert.equal(virus.mass, 100);
+
+        const [shot] = physicsEngine.getEntitiesByType('virus').filter(entity => entity.id !== 'virus');
+        assert.ok(shot, 'no se disparó un virus nuevo');
+        assert.equal(shot.mass, 100);
+        assert.ok(shot.position.x > virus.position.x);
+        assert.ok(shot.velocity.x > 0);
+        assert.equal(shot.velocity.y, 0);
+    });
+
+    it('no dispara por encima de maxViruses, pero vuelve a su masa inicial', () => {
+        const { physicsEngine, virusSystem } = createSystems({ virusMass: 100, virusShootMass: 200, maxViruses: 1 });
+        const virus = physicsEngine.createEntity('virus', 'virus', 100, { x: 1000, y: 1000 });
+
+        feed(physicsEngine, virusSystem, virus, 5);
+        assert.equal(physicsEngine.getEntitiesByType('virus').length, 1);
+        assert.equal(virus.mass, 100);
+    });
+
+    it('una célula que se come un virus explota en trozos y conserva la masa', () => {
+        const { physicsEngine, splitMergeSystem, virusSystem } = createSystems();
+        const cell = physicsEngine.createEntity('p', 'player', 300, { x: 1000, y: 1000 }, 'p');
+        const virus = physicsEngine.createEntity('virus', 'virus', 100, { x: 1000, y: 1000 });
+
+        virusSystem.handleVirusEaten(cell, virus);
+
+        const cells = splitMergeSystem.getPlayerCells('p');
+        assert.equal(physicsEngine.getEntity('virus'), undefined);
+        assert.ok(cells.length > 1);
+        const totalMass = cells.reduce((total, piece) => total + piece.mass, 0);
+        assert.ok(Math.abs(totalMass - 400) < 1e-9, `masa total ${totalMass}`);
+    });
+
+    it('una célula pequeña no se come el virus', () => {
+        const { physicsEngine, splitMergeSystem, virusSystem } = createSystems();
+        const cell = physicsEngine.createEntity('p', 'player', 100, { x: 1000, y: 1000 }, 'p');
+        const virus = physicsEngine.createEntity('virus', 'virus', 100, { x: 1000, y: 1000 });
+
+        virusSystem.handleVirusEaten(cell, virus);
+        assert.ok(physicsEngine.getEntity('virus'));
+        assert.equal(splitMergeSystem.getPlayerCells('p').length, 1);
+    });
+
+    it('la explosión respeta maxSplitParts contando las células que ya tiene el dueño', () => {
+        const { physicsEngine, splitMergeSystem, virusSystem } = createSystems({}, { maxSplitParts: 4 });
+        physicsEngine.createEntity('p', 'player', 800, { x: 1000, y: 1000 }, 'p');
+        assert.ok(splitMergeSystem.performSplit('p', { x: 1, y: 0 }));
+
+        const cell = physicsEngine.getEntity('p')!;
+        const virus = physicsEngine.createEntity('virus', 'virus', 100, { ...cell.position });
+        virusSystem.handleVirusEaten(cell, virus);
+        assert.equal(splitMergeSystem.getPlayerCells('p').length, 4);
+
+        // Sin huecos libres no hay explosión
+        assert.equal(splitMergeSystem.explodeCell('p'), 0);
+        assert.equal(splitMergeSystem.getPlayerCells('p').length, 4);
+    });
+});